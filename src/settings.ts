@@ -1,18 +1,152 @@
 "use strict";
 
+import powerbi from "powerbi-visuals-api";
+
+import DataView = powerbi.DataView;
+import FormattingModel = powerbi.visuals.FormattingModel;
+import FormattingSlice = powerbi.visuals.FormattingSlice;
+
 export class DateSettingsSettings {
     public dateColumn: string = "";
     public startDate: string = "";
     public endDate: string = "";
+    public showTime: boolean = false;
+    public timeGranularity: string = "minute";
+    public showCalendar: boolean = true;
+    public timeZoneMode: string = "local";
+    public timeZone: string = "";
+    public maxRangeDays: number = 0;
+    public applyOnChange: boolean = false;
 }
 
 export class AppearanceSettings {
     public showTitle: boolean = true;
     public titleText: string = "Date Range Filter";
     public titleColor: string = "#000000";
+    public layout: string = "auto";
+}
+
+export class PresetsSettings {
+    public presetList: string = "last4Hours,last24Hours,last7Days,last30Days,last90Days,custom";
+    public anchor: string = "maxDate";
+    public weekStartDay: string = "auto";
+    public fiscalYearStartMonth: number = 1;
+    public rollingFilters: boolean = false;
+}
+
+export class PeriodSettings {
+    public showArrows: boolean = true;
+    public comparisonMode: string = "none";
 }
 
 export class VisualSettings {
     public dateSettings: DateSettingsSettings = new DateSettingsSettings();
+    public presets: PresetsSettings = new PresetsSettings();
+    public period: PeriodSettings = new PeriodSettings();
     public appearance: AppearanceSettings = new AppearanceSettings();
+
+    /** Reads `metadata.objects` over the defaults; property names mirror capabilities.json. */
+    public static parse(dataView?: DataView): VisualSettings {
+        const settings = new VisualSettings();
+        const objects: any = dataView?.metadata?.objects;
+        if (!objects) return settings;
+        Object.keys(settings).forEach(objectName => {
+            const target: any = (settings as any)[objectName];
+            const source: any = objects[objectName];
+            if (!source) return;
+            Object.keys(target).forEach(prop => {
+                const value = source[prop];
+                if (value === undefined || value === null) return;
+                if (typeof target[prop] === "string" && value?.solid?.color !== undefined) target[prop] = String(value.solid.color);
+                else if (typeof target[prop] === typeof value) target[prop] = value;
+            });
+        });
+        return settings;
+    }
+
+    public getFormattingModel(): FormattingModel {
+        const ds = this.dateSettings, ps = this.presets, pe = this.period, ap = this.appearance;
+        const text = (objectName: string, propertyName: string, displayName: string, value: string, placeholder: string): FormattingSlice => ({
+            uid: `${objectName}_${propertyName}`, displayName,
+            control: { type: powerbi.visuals.FormattingComponent.TextInput, properties: { descriptor: { objectName, propertyName }, value, placeholder } }
+        });
+        const dropdown = (objectName: string, propertyName: string, displayName: string, value: string): FormattingSlice => ({
+            uid: `${objectName}_${propertyName}`, displayName,
+            control: { type: powerbi.visuals.FormattingComponent.Dropdown, properties: { descriptor: { objectName, propertyName }, value } }
+        });
+        const toggle = (objectName: string, propertyName: string, displayName: string, value: boolean): FormattingSlice => ({
+            uid: `${objectName}_${propertyName}`, displayName,
+            control: { type: powerbi.visuals.FormattingComponent.ToggleSwitch, properties: { descriptor: { objectName, propertyName }, value } }
+        });
+        return {
+            cards: [
+                {
+                    uid: "dateSettings_card", displayName: "Date Settings",
+                    groups: [{
+                        uid: "dateSettings_group", displayName: "Range",
+                        slices: [
+                            text("dateSettings", "dateColumn", "Date Column (label only)", ds.dateColumn, "Field display name"),
+                            text("dateSettings", "startDate", "Default Start Date (YYYY-MM-DD)", ds.startDate, "YYYY-MM-DD"),
+                            text("dateSettings", "endDate", "Default End Date (YYYY-MM-DD)", ds.endDate, "YYYY-MM-DD"),
+                            toggle("dateSettings", "showTime", "Show Time Inputs", ds.showTime),
+                            dropdown("dateSettings", "timeGranularity", "Time Granularity", ds.timeGranularity),
+                            toggle("dateSettings", "showCalendar", "Show Calendar Picker", ds.showCalendar),
+                            dropdown("dateSettings", "timeZoneMode", "Source Time Zone", ds.timeZoneMode),
+                            text("dateSettings", "timeZone", "Fixed Zone (IANA name or +HH:MM)", ds.timeZone, "America/New_York"),
+                            {
+                                uid: "dateSettings_maxRangeDays", displayName: "Max Range (days, 0 = no limit)",
+                                control: { type: powerbi.visuals.FormattingComponent.NumUpDown, properties: { descriptor: { objectName: "dateSettings", propertyName: "maxRangeDays" }, value: ds.maxRangeDays } }
+                            },
+                            toggle("dateSettings", "applyOnChange", "Apply on Change", ds.applyOnChange)
+                        ]
+                    }]
+                },
+                {
+                    uid: "presets_card", displayName: "Quick Select",
+                    groups: [{
+                        uid: "presets_group", displayName: "Presets",
+                        slices: [
+                            text("presets", "presetList", "Presets (id or id=Label, comma-separated)", ps.presetList, "last7Days,monthToDate=MTD,custom"),
+                            dropdown("presets", "anchor", "Relative To", ps.anchor),
+                            dropdown("presets", "weekStartDay", "Week Starts On", ps.weekStartDay),
+                            {
+                                uid: "presets_fiscalYearStartMonth", displayName: "Fiscal Year Start Month (1-12)",
+                                control: { type: powerbi.visuals.FormattingComponent.NumUpDown, properties: { descriptor: { objectName: "presets", propertyName: "fiscalYearStartMonth" }, value: ps.fiscalYearStartMonth } }
+                            },
+                            toggle("presets", "rollingFilters", "Rolling Filters for Presets", ps.rollingFilters)
+                        ]
+                    }]
+                },
+                {
+                    uid: "period_card", displayName: "Period",
+                    groups: [{
+                        uid: "period_group", displayName: "Navigation & Comparison",
+                        slices: [
+                            toggle("period", "showArrows", "Previous/Next Arrows", pe.showArrows),
+                            dropdown("period", "comparisonMode", "Default Comparison", pe.comparisonMode)
+                        ]
+                    }]
+                },
+                {
+                    uid: "appearance_card", displayName: "Appearance",
+                    groups: [{
+                        uid: "appearance_group", displayName: "Title",
+                        slices: [
+                            toggle("appearance", "showTitle", "Show Title", ap.showTitle),
+                            text("appearance", "titleText", "Title Text", ap.titleText, "Date Range Filter"),
+                            {
+                                uid: "appearance_titleColor", displayName: "Title Color",
+                                control: { type: powerbi.visuals.FormattingComponent.ColorPicker, properties: { descriptor: { objectName: "appearance", propertyName: "titleColor" }, value: { value: ap.titleColor } } }
+                            }
+                        ]
+                    }, {
+                        uid: "appearance_layout_group", displayName: "Layout",
+                        slices: [
+                            dropdown("appearance", "layout", "Layout", ap.layout)
+                        ]
+                    }]
+                }
+            ]
+        };
+    }
 }
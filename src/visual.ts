@@ -2,11 +2,14 @@
 
 import powerbi from "powerbi-visuals-api";
 import * as models from "powerbi-models";
+import { VisualSettings } from "./settings";
 
 import IVisual = powerbi.extensibility.visual.IVisual;
 import VisualConstructorOptions = powerbi.extensibility.visual.VisualConstructorOptions;
 import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
+import FormattingModel = powerbi.visuals.FormattingModel;
 
+/** Inclusive range of instants; with time disabled start is 00:00:00.000 and end 23:59:59.999. */
 interface IDateRange {
     startDate: Date;
     endDate: Date;
@@ -14,31 +17,129 @@ interface IDateRange {
 interface IDateColumnInfo {
     displayName: string; 
     queryName: string; 
+    /** Data role the field is bound to: `date`, `endDate` for the end of a from/to pair, or `compareDate`. */
+    role: string;
     minDate?: Date; 
     maxDate?: Date;
+    /** Days (YYYY-MM-DD) that have at least one row in the scanned values. */
+    dataDays?: { [day: string]: boolean };
+    /** Set when no value could be read, so minDate/maxDate are the 1900 / +10-year placeholders. */
+    placeholderBounds?: boolean;
+    /** Set when the host sent only the first window of rows (`metadata.segment`), so min/max cover what was loaded. */
+    partialBounds?: boolean;
+}
+/** Rolling window in Power BI's relative-filter terms (always evaluated against today/now). */
+interface IRelativeRange {
+    operator: models.RelativeDateOperators;
+    timeUnitsCount: number;
+    timeUnitType: models.RelativeDateFilterTimeUnit;
+    includeToday: boolean;
+}
+/** A persisted filter decoded back into the range it covers; `relative` is set for rolling filters. */
+interface IAppliedSelection {
+    range: IDateRange;
+    relative?: IRelativeRange;
+    /** Range filtered on the comparison column, when one is bound and was filtered alongside. */
+    comparison?: IDateRange;
 }
 interface IFilterService { 
-    applyFilter(dateRange: IDateRange): void; 
+    applyFilter(dateRange: IDateRange, comparison?: IDateRange | null): void; 
+    applyRelativeFilter(relative: IRelativeRange): void;
     clearFilter(): void; 
-    setDateColumn(column: IDateColumnInfo | null): void; 
+    setDateColumn(column: IDateColumnInfo | null, endColumn?: IDateColumnInfo | null): void; 
+    setTimeZone(zone: string): void;
+    setComparisonColumn(column: IDateColumnInfo | null): void;
+    getAppliedSelection(filters?: any[]): IAppliedSelection | null;
+    getAppliedSelectionFor(filters: any[] | undefined, column: IDateColumnInfo | null, endColumn?: IDateColumnInfo | null): IAppliedSelection | null;
+}
+/** One finding about a range; only errors block applying it. `field` places the message inline. */
+interface IValidationIssue {
+    field: "start" | "end" | "range";
+    severity: "error" | "warning";
+    message: string;
+}
+/** What a range is checked against: the active column's data and the format pane's span limit (0 = none). */
+interface IRangeConstraints {
+    minDate?: Date;
+    maxDate?: Date;
+    /** False when the column had no readable values and min/max are the 1900 / +10-year placeholders. */
+    boundsFromData: boolean;
+    /** True when more rows exist than were loaded, so a range past min/max may still hold data. */
+    partialBounds?: boolean;
+    dataDays?: { [day: string]: boolean };
+    maxRangeDays: number;
+}
+interface IRangeValidator {
+    validate(range: IDateRange, constraints: IRangeConstraints): IValidationIssue[];
 }
 interface IMessageService { 
     showSuccess(message: string): void; 
     showError(message: string): void; 
 }
+interface ILocalizationService {
+    readonly locale: string;
+    /** Whether the locale writes the day before the month (used to read ambiguous D/M/YYYY text). */
+    readonly dayFirst: boolean;
+    readonly defaultWeekStartDay: number;
+    getString(key: string, ...args: (string | number)[]): string;
+    formatDisplayDate(date: Date): string;
+    formatDisplayDateTime(date: Date, granularity: TimeGranularity): string;
+    monthName(month: number): string;
+    weekdayShort(day: number): string;
+}
 interface IUIComponent { 
     render(container: HTMLElement): void; 
     update(data?: any): void; 
 }
 
-enum PredefinedRange {
-    LATEST_7_DAYS = 7, 
-    LATEST_30_DAYS = 30, 
-    LATEST_90_DAYS = 90, 
-    CUSTOM = 0 
+type TimeGranularity = "minute" | "second";
+/** vertical: the full stack; horizontal: one row for header strips; compact: a range pill that opens the stack. */
+type LayoutMode = "vertical" | "horizontal" | "compact";
+/** Second window filtered on the `compareDate` field next to the selected range. */
+type ComparisonMode = "none" | "previousPeriod" | "samePeriodLastYear";
+const COMPARISON_MODES: ComparisonMode[] = ["none", "previousPeriod", "samePeriodLastYear"];
+
+/** What presets are computed relative to: `anchor` is today (now) or the column's maxDate. */
+interface IPresetContext {
+    anchor: Date;
+    weekStartDay: number;
+    fiscalYearStartMonth: number;
+}
+interface IDatePreset {
+    id: string;
+    label: string;
+    requiresTime?: boolean;
+    /** Equivalent rolling filter, for presets Power BI can express relatively. */
+    relative?: IRelativeRange;
+    /** Calendar months the period arrows step by; presets without one step by the range's own length. */
+    stepMonths?: number;
+    compute(ctx: IPresetContext): IDateRange;
 }
+interface IPresetOption {
+    id: string;
+    label: string;
+}
+/** A choice in the column dropdown: one field, or a from/to pair filtered for overlap with the range. */
+interface IDateColumnOption {
+    id: string;
+    label: string;
+    column: IDateColumnInfo;
+    endColumn?: IDateColumnInfo;
+}
+
+const CUSTOM_PRESET = "custom";
+const DEFAULT_PRESET = "last7Days";
+/** Quiet period after the last change before "apply on change" writes the filter. */
+const AUTO_APPLY_DELAY_MS = 500;
+/** Smallest viewports (px) the full stack and the single row fit in; anything smaller collapses to the pill. */
+const VERTICAL_MIN_SIZE = { width: 200, height: 320 };
+const HORIZONTAL_MIN_SIZE = { width: 640, height: 56 };
+
+let elementIdCounter = 0;
+/** Unique id for label/ARIA wiring (several visuals can share a document in tests). */
+function nextElementId(prefix: string): string { return `dtp-${prefix}-${++elementIdCounter}`; }
 
-class DateUtils {
+export class DateUtils {
     static formatDate(date: Date): string {
         if (!date) return "";
         const y = date.getFullYear();
@@ -46,60 +147,592 @@ class DateUtils {
         const d = String(date.getDate()).padStart(2, "0");
         return `${y}-${m}-${d}`;
     }
-    static parseDate(input: any): Date {
+    static formatTime(date: Date, granularity: TimeGranularity = "minute"): string {
+        if (!date) return "";
+        const h = String(date.getHours()).padStart(2, "0");
+        const mi = String(date.getMinutes()).padStart(2, "0");
+        if (granularity === "minute") return `${h}:${mi}`;
+        return `${h}:${mi}:${String(date.getSeconds()).padStart(2, "0")}`;
+    }
+    static formatDateTime(date: Date, granularity: TimeGranularity = "minute"): string {
+        if (!date) return "";
+        return `${DateUtils.formatDate(date)} ${DateUtils.formatTime(date, granularity)}`;
+    }
+    static parseDate(input: any, dayFirst?: boolean): Date {
+        const dt = DateUtils.parseDateTime(input, dayFirst);
+        if (isNaN(dt.getTime())) return dt;
+        return DateUtils.startOfDay(dt);
+    }
+    /**
+     * Same formats as parseDate, but keeps the time of day (local time) when the input carries one.
+     * Ambiguous D/M/YYYY values follow `dayFirst` (the locale's order); unambiguous ones (a part > 12) always win.
+     */
+    static parseDateTime(input: any, dayFirst?: boolean): Date {
         if (!input) return new Date(NaN);
-        if (input instanceof Date) return new Date(input.getFullYear(), input.getMonth(), input.getDate());
+        if (input instanceof Date) return new Date(input.getTime());
         const s = String(input).trim();
-        const mIso = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
-        if (mIso) return new Date(+mIso[1], +mIso[2] - 1, +mIso[3]);
-        const mSl = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+        const mIso = s.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?/);
+        if (mIso) return new Date(+mIso[1], +mIso[2] - 1, +mIso[3], +(mIso[4] || 0), +(mIso[5] || 0), +(mIso[6] || 0), +((mIso[7] || "0") + "00").slice(0, 3));
+        const mSl = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
         if (mSl) {
             const a = +mSl[1], b = +mSl[2], y = +mSl[3];
-            const ddFirst = a > 12;
+            const ddFirst = a > 12 || (b <= 12 && !!dayFirst);
             const d = ddFirst ? a : b;
             const mo = ddFirst ? b : a;
-            return new Date(y, mo - 1, d);
+            return new Date(y, mo - 1, d, +(mSl[4] || 0), +(mSl[5] || 0), +(mSl[6] || 0));
         }
         const d = new Date(s);
         if (isNaN(d.getTime())) return new Date(NaN);
-        return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+        return d;
     }
-    static getDateRange(range: PredefinedRange, maxDate?: Date): IDateRange {
-        const endDate = maxDate || new Date();
-        const startDate = new Date(endDate);
-        if (range !== PredefinedRange.CUSTOM) startDate.setDate(endDate.getDate() - range);
-        return { startDate, endDate };
+    /** Combines a YYYY-MM-DD date input value with an HH:mm[:ss] time input value. */
+    static combineDateTime(dateValue: string, timeValue: string): Date {
+        const day = DateUtils.parseDate(dateValue);
+        if (isNaN(day.getTime())) return day;
+        const m = (timeValue || "").match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+        if (m) day.setHours(+m[1], +m[2], +(m[3] || 0), 0);
+        return day;
+    }
+    static startOfDay(date: Date): Date { return new Date(date.getFullYear(), date.getMonth(), date.getDate()); }
+    static endOfDay(date: Date): Date { return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999); }
+    static addDays(date: Date, days: number): Date { const d = new Date(date.getTime()); d.setDate(d.getDate() + days); return d; }
+    static startOfWeek(date: Date, weekStartDay: number): Date {
+        const d = DateUtils.startOfDay(date);
+        return DateUtils.addDays(d, -((d.getDay() - weekStartDay + 7) % 7));
+    }
+    static startOfQuarter(date: Date): Date { return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1); }
+    /** fiscalYearStartMonth is 1-based (1 = January, 7 = July). */
+    static startOfFiscalYear(date: Date, fiscalYearStartMonth: number): Date {
+        const m = fiscalYearStartMonth - 1;
+        return new Date(date.getMonth() >= m ? date.getFullYear() : date.getFullYear() - 1, m, 1);
+    }
+    static addMonths(date: Date, months: number): Date { const d = new Date(date.getTime()); d.setMonth(d.getMonth() + months); return d; }
+    /** Number of calendar months a range covers exactly (1st 00:00 to a month's last day 23:59:59.999), else 0. */
+    static countWholeMonths(range: IDateRange): number {
+        const { startDate, endDate } = range;
+        if (startDate.getTime() !== new Date(startDate.getFullYear(), startDate.getMonth(), 1).getTime()) return 0;
+        if (endDate.getTime() !== DateUtils.endOfDay(new Date(endDate.getFullYear(), endDate.getMonth() + 1, 0)).getTime()) return 0;
+        return Math.max(0, (endDate.getFullYear() - startDate.getFullYear()) * 12 + endDate.getMonth() - startDate.getMonth() + 1);
+    }
+    /**
+     * Moves a range `direction` periods (negative = back). With `stepMonths`, or when it covers whole months, it moves
+     * by calendar months, days clamped to the target month and a month-end end kept on the month end; otherwise by its
+     * own length, in whole days when it covers whole days so DST changes don't shift the boundaries off midnight.
+     */
+    static shiftRange(range: IDateRange, direction: number, stepMonths?: number): IDateRange {
+        const { startDate, endDate } = range;
+        stepMonths = stepMonths || DateUtils.countWholeMonths(range);
+        if (stepMonths) {
+            const months = direction * stepMonths;
+            const shift = (d: Date, toMonthEnd: boolean) => {
+                const last = new Date(d.getFullYear(), d.getMonth() + months + 1, 0).getDate();
+                return new Date(d.getFullYear(), d.getMonth() + months, toMonthEnd ? last : Math.min(d.getDate(), last), d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds());
+            };
+            return { startDate: shift(startDate, false), endDate: shift(endDate, DateUtils.addDays(endDate, 1).getDate() === 1) };
+        }
+        if (startDate.getTime() === DateUtils.startOfDay(startDate).getTime() && endDate.getTime() === DateUtils.endOfDay(endDate).getTime()) {
+            const days = direction * (Math.round((DateUtils.startOfDay(endDate).getTime() - startDate.getTime()) / 86400000) + 1);
+            return { startDate: DateUtils.addDays(startDate, days), endDate: DateUtils.addDays(endDate, days) };
+        }
+        const ms = direction * (endDate.getTime() - startDate.getTime() + 1);
+        return { startDate: new Date(startDate.getTime() + ms), endDate: new Date(endDate.getTime() + ms) };
+    }
+    /** The window compared with `range`: the period just before it (stepping like the arrows), or the same dates a year earlier. */
+    static getComparisonRange(range: IDateRange, mode: ComparisonMode, stepMonths?: number): IDateRange | null {
+        if (mode === "previousPeriod") return DateUtils.shiftRange(range, -1, stepMonths);
+        if (mode === "samePeriodLastYear") return DateUtils.shiftRange(range, -1, 12);
+        return null;
+    }
+    static isTimeUnit(unit: models.RelativeDateFilterTimeUnit): boolean {
+        return unit === models.RelativeDateFilterTimeUnit.Hours || unit === models.RelativeDateFilterTimeUnit.Minutes;
+    }
+    /** Concrete range a relative filter covers at `now`, mirroring Power BI's relative date/time slicer semantics. */
+    static resolveRelative(rel: IRelativeRange, now: Date): IDateRange {
+        const U = models.RelativeDateFilterTimeUnit, n = rel.timeUnitsCount, unit = rel.timeUnitType;
+        const next = rel.operator === models.RelativeDateOperators.InNext;
+        if (DateUtils.isTimeUnit(unit)) {
+            const ms = n * (unit === U.Hours ? 3600000 : 60000);
+            return next ? { startDate: new Date(now.getTime()), endDate: new Date(now.getTime() + ms) } : { startDate: new Date(now.getTime() - ms), endDate: new Date(now.getTime()) };
+        }
+        const shift = (d: Date, k: number): Date => {
+            if (unit === U.Days) return DateUtils.addDays(d, k);
+            if (unit === U.Weeks || unit === U.CalendarWeeks) return DateUtils.addDays(d, 7 * k);
+            if (unit === U.Months || unit === U.CalendarMonths) return DateUtils.addMonths(d, k);
+            return DateUtils.addMonths(d, 12 * k);
+        };
+        const periodStart = (d: Date): Date => {
+            if (unit === U.Weeks || unit === U.CalendarWeeks) return DateUtils.startOfWeek(d, 0);
+            if (unit === U.Months || unit === U.CalendarMonths) return new Date(d.getFullYear(), d.getMonth(), 1);
+            if (unit === U.Years || unit === U.CalendarYears) return new Date(d.getFullYear(), 0, 1);
+            return DateUtils.startOfDay(d);
+        };
+        const before = (d: Date): Date => new Date(d.getTime() - 1);
+        const today = DateUtils.startOfDay(now);
+        if (rel.operator === models.RelativeDateOperators.InThis) {
+            const s = periodStart(today);
+            return { startDate: s, endDate: before(shift(s, 1)) };
+        }
+        if (unit === U.CalendarWeeks || unit === U.CalendarMonths || unit === U.CalendarYears) {
+            const s = periodStart(today);
+            return next ? { startDate: shift(s, 1), endDate: before(shift(s, n + 1)) } : { startDate: shift(s, -n), endDate: before(s) };
+        }
+        if (next) {
+            const s = rel.includeToday ? today : DateUtils.addDays(today, 1);
+            return { startDate: s, endDate: before(shift(s, n)) };
+        }
+        const e = rel.includeToday ? DateUtils.addDays(today, 1) : today;
+        return { startDate: shift(e, -n), endDate: before(e) };
+    }
+    static describeRelative(rel: IRelativeRange, l10n: ILocalizationService): string {
+        const U = models.RelativeDateFilterTimeUnit, n = rel.timeUnitsCount;
+        const units: { [unit: number]: string } = {
+            [U.Days]: "day", [U.Weeks]: "week", [U.CalendarWeeks]: "calendarWeek", [U.Months]: "month", [U.CalendarMonths]: "calendarMonth",
+            [U.Years]: "year", [U.CalendarYears]: "calendarYear", [U.Hours]: "hour", [U.Minutes]: "minute"
+        };
+        const unit = units[rel.timeUnitType] || "day";
+        if (rel.operator === models.RelativeDateOperators.InThis) {
+            return rel.timeUnitType === U.Days ? l10n.getString("Relative_Today") : l10n.getString(`Relative_This_${unit.replace("calendar", "").toLowerCase()}`);
+        }
+        const next = rel.operator === models.RelativeDateOperators.InNext;
+        if (rel.timeUnitType === U.Days && n === 1 && !rel.includeToday) return l10n.getString(next ? "Relative_Tomorrow" : "Relative_Yesterday");
+        const text = l10n.getString(`Relative_${next ? "Next" : "Last"}${n === 1 ? "1" : "N"}_${unit}`, n);
+        const rolling = rel.timeUnitType === U.Days || rel.timeUnitType === U.Weeks || rel.timeUnitType === U.Months || rel.timeUnitType === U.Years;
+        return rolling && !rel.includeToday ? l10n.getString("Relative_ExcludingToday", text) : text;
     }
     static isValidDateRange(start: Date, end: Date): boolean { return start <= end; }
-    static findMinMaxDates(arr: any[]) {
-        if (!arr || !arr.length) return { minDate: null as Date | null, maxDate: null as Date | null };
+    static findMinMaxDates(arr: any[], dayFirst?: boolean) {
+        const days: { [day: string]: boolean } = {};
+        if (!arr || !arr.length) return { minDate: null as Date | null, maxDate: null as Date | null, days };
         let min: Date | null = null, max: Date | null = null;
         for (const v of arr) {
-            const dt = DateUtils.parseDate(v);
-            if (!isNaN(dt.getTime())) { if (!min || dt < min) min = dt; if (!max || dt > max) max = dt; }
+            const dt = DateUtils.parseDateTime(v, dayFirst);
+            if (!isNaN(dt.getTime())) { if (!min || dt < min) min = dt; if (!max || dt > max) max = dt; days[DateUtils.formatDate(dt)] = true; }
+        }
+        return { minDate: min, maxDate: max, days };
+    }
+}
+
+/**
+ * Converts between instants and wall-clock time in the source data's zone: "local" (viewer),
+ * "UTC", a fixed offset ("+05:30") or an IANA name ("America/New_York", DST-aware via Intl).
+ */
+export class TimeZoneUtils {
+    static readonly LOCAL = "local";
+    static readonly UTC = "UTC";
+
+    static isValidZone(zone: string): boolean {
+        if (!zone) return false;
+        if (zone === TimeZoneUtils.LOCAL || zone === TimeZoneUtils.UTC || TimeZoneUtils.parseFixedOffset(zone) !== null) return true;
+        try { new Intl.DateTimeFormat("en-US", { timeZone: zone }); return true; } catch (e) { return false; }
+    }
+    /** "+05:30" / "-0800" / "UTC+2" -> minutes east of UTC, or null when not a fixed offset. */
+    static parseFixedOffset(zone: string): number | null {
+        const m = String(zone).trim().match(/^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i);
+        if (!m) return null;
+        const mins = +m[2] * 60 + +(m[3] || 0);
+        return mins > 14 * 60 ? null : (m[1] === "-" ? -mins : mins);
+    }
+    /** Minutes east of UTC that `zone` observes at `instant`. */
+    static getOffsetMinutes(instant: Date, zone: string): number {
+        if (zone === TimeZoneUtils.LOCAL) return -instant.getTimezoneOffset();
+        if (zone === TimeZoneUtils.UTC) return 0;
+        const fixed = TimeZoneUtils.parseFixedOffset(zone);
+        if (fixed !== null) return fixed;
+        const parts = new Intl.DateTimeFormat("en-US", {
+            timeZone: zone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit"
+        } as Intl.DateTimeFormatOptions).formatToParts(instant);
+        const get = (type: string) => +(parts.find(p => p.type === type)?.value || 0);
+        const wall = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour") % 24, get("minute"), get("second"));
+        return Math.round((wall - (instant.getTime() - instant.getMilliseconds())) / 60000);
+    }
+    /** Wall-clock time of `instant` in `zone`, as a naive "YYYY-MM-DDTHH:mm:ss.SSS" string. */
+    static formatInZone(instant: Date, zone: string): string {
+        const w = new Date(instant.getTime() + TimeZoneUtils.getOffsetMinutes(instant, zone) * 60000);
+        const p2 = (n: number) => String(n).padStart(2, "0");
+        return `${w.getUTCFullYear()}-${p2(w.getUTCMonth() + 1)}-${p2(w.getUTCDate())}T${p2(w.getUTCHours())}:${p2(w.getUTCMinutes())}:${p2(w.getUTCSeconds())}.${String(w.getUTCMilliseconds()).padStart(3, "0")}`;
+    }
+    /**
+     * Instant at which `zone` shows the given wall-clock time. Times skipped by a DST jump resolve
+     * forward (02:30 -> 03:30); repeated times resolve to the first occurrence.
+     */
+    static fromZoneWallTime(y: number, mo: number, d: number, h = 0, mi = 0, s = 0, ms = 0, zone: string = TimeZoneUtils.LOCAL): Date {
+        if (zone === TimeZoneUtils.LOCAL) return new Date(y, mo, d, h, mi, s, ms);
+        const wall = Date.UTC(y, mo, d, h, mi, s, ms);
+        const before = TimeZoneUtils.getOffsetMinutes(new Date(wall - 86400000 / 2), zone);
+        const after = TimeZoneUtils.getOffsetMinutes(new Date(wall + 86400000 / 2), zone);
+        // Try the earlier offset first so ambiguous (fall-back) times pick the first occurrence.
+        for (const off of [Math.max(before, after), Math.min(before, after)]) {
+            const t = new Date(wall - off * 60000);
+            if (TimeZoneUtils.getOffsetMinutes(t, zone) === off) return t;
+        }
+        return new Date(wall - before * 60000);
+    }
+    /** Parses a naive "YYYY-MM-DD[THH:mm[:ss[.SSS]]]" value as wall-clock time in `zone`. */
+    static parseInZone(input: any, zone: string): Date {
+        if (input instanceof Date || zone === TimeZoneUtils.LOCAL) return DateUtils.parseDateTime(input);
+        const m = String(input || "").trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?/);
+        if (!m) return DateUtils.parseDateTime(input);
+        return TimeZoneUtils.fromZoneWallTime(+m[1], +m[2] - 1, +m[3], +(m[4] || 0), +(m[5] || 0), +(m[6] || 0), +((m[7] || "0") + "00").slice(0, 3), zone);
+    }
+    static describe(zone: string, at: Date = new Date()): string {
+        if (zone === TimeZoneUtils.LOCAL) return "viewer local time";
+        const off = TimeZoneUtils.getOffsetMinutes(at, zone);
+        const abs = Math.abs(off);
+        const label = `UTC${off < 0 ? "-" : "+"}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+        return zone === TimeZoneUtils.UTC || TimeZoneUtils.parseFixedOffset(zone) !== null ? label : `${zone} (${label})`;
+    }
+}
+
+class DatePresetRegistry {
+    private static presets: { [id: string]: IDatePreset } = {};
+    private static order: string[] = [];
+
+    static register(preset: IDatePreset): void {
+        if (!DatePresetRegistry.presets[preset.id]) DatePresetRegistry.order.push(preset.id);
+        DatePresetRegistry.presets[preset.id] = preset;
+    }
+    static get(id: string): IDatePreset | undefined { return DatePresetRegistry.presets[id]; }
+    static ids(): string[] { return DatePresetRegistry.order.slice(); }
+    static getRange(id: string, ctx: IPresetContext): IDateRange | null {
+        const preset = DatePresetRegistry.presets[id];
+        return preset ? preset.compute(ctx) : null;
+    }
+    /**
+     * Parses the format-pane list ("id" or "id=Label", comma-separated); unknown ids are dropped.
+     * Without an explicit label, `l10n`'s "Preset_<id>" string is used, then the preset's own label.
+     */
+    static resolve(list: string, l10n?: ILocalizationService): IPresetOption[] {
+        const defaultLabel = (id: string, fallback: string) => {
+            const key = `Preset_${id}`, text = l10n ? l10n.getString(key) : key;
+            return text === key ? fallback : text;
+        };
+        const out: IPresetOption[] = [];
+        (list || "").split(",").forEach(entry => {
+            const eq = entry.indexOf("=");
+            const id = (eq >= 0 ? entry.slice(0, eq) : entry).trim();
+            const label = eq >= 0 ? entry.slice(eq + 1).trim() : "";
+            if (id === CUSTOM_PRESET) out.push({ id, label: label || defaultLabel(id, "Custom") });
+            else if (DatePresetRegistry.presets[id] && !out.some(o => o.id === id)) out.push({ id, label: label || defaultLabel(id, DatePresetRegistry.presets[id].label) });
+        });
+        return out;
+    }
+}
+
+const relative = (operator: models.RelativeDateOperators, timeUnitsCount: number, timeUnitType: models.RelativeDateFilterTimeUnit, includeToday = true): IRelativeRange =>
+    ({ operator, timeUnitsCount, timeUnitType, includeToday });
+const lastDays = (id: string, days: number): IDatePreset => ({
+    id, label: `Last ${days} days`, relative: relative(models.RelativeDateOperators.InLast, days, models.RelativeDateFilterTimeUnit.Days),
+    compute: ({ anchor }) => ({ startDate: DateUtils.addDays(DateUtils.startOfDay(anchor), -(days - 1)), endDate: DateUtils.endOfDay(anchor) })
+});
+const lastHours = (id: string, hours: number): IDatePreset => ({
+    id, label: `Last ${hours} hours`, requiresTime: true, relative: relative(models.RelativeDateOperators.InLast, hours, models.RelativeDateFilterTimeUnit.Hours),
+    compute: ({ anchor }) => ({ startDate: new Date(anchor.getTime() - hours * 3600000), endDate: new Date(anchor.getTime()) })
+});
+// Calendar presets cover whole days; "... to date" presets end on the anchor's day.
+[
+    lastHours("last4Hours", 4),
+    lastHours("last24Hours", 24),
+    {
+        id: "today", label: "Today", relative: relative(models.RelativeDateOperators.InThis, 1, models.RelativeDateFilterTimeUnit.Days),
+        compute: ({ anchor }) => ({ startDate: DateUtils.startOfDay(anchor), endDate: DateUtils.endOfDay(anchor) })
+    },
+    {
+        id: "yesterday", label: "Yesterday", relative: relative(models.RelativeDateOperators.InLast, 1, models.RelativeDateFilterTimeUnit.Days, false),
+        compute: ({ anchor }) => { const y = DateUtils.addDays(anchor, -1); return { startDate: DateUtils.startOfDay(y), endDate: DateUtils.endOfDay(y) }; }
+    },
+    lastDays("last7Days", 7),
+    lastDays("last30Days", 30),
+    lastDays("last90Days", 90),
+    {
+        id: "thisWeek", label: "This week",
+        compute: ({ anchor, weekStartDay }) => { const s = DateUtils.startOfWeek(anchor, weekStartDay); return { startDate: s, endDate: DateUtils.endOfDay(DateUtils.addDays(s, 6)) }; }
+    },
+    {
+        id: "lastWeek", label: "Last week",
+        compute: ({ anchor, weekStartDay }) => { const s = DateUtils.addDays(DateUtils.startOfWeek(anchor, weekStartDay), -7); return { startDate: s, endDate: DateUtils.endOfDay(DateUtils.addDays(s, 6)) }; }
+    },
+    {
+        id: "monthToDate", label: "Month to date", stepMonths: 1,
+        compute: ({ anchor }) => ({ startDate: new Date(anchor.getFullYear(), anchor.getMonth(), 1), endDate: DateUtils.endOfDay(anchor) })
+    },
+    {
+        id: "lastMonth", label: "Last month", stepMonths: 1, relative: relative(models.RelativeDateOperators.InLast, 1, models.RelativeDateFilterTimeUnit.CalendarMonths),
+        compute: ({ anchor }) => ({ startDate: new Date(anchor.getFullYear(), anchor.getMonth() - 1, 1), endDate: DateUtils.endOfDay(new Date(anchor.getFullYear(), anchor.getMonth(), 0)) })
+    },
+    {
+        id: "quarterToDate", label: "Quarter to date", stepMonths: 3,
+        compute: ({ anchor }) => ({ startDate: DateUtils.startOfQuarter(anchor), endDate: DateUtils.endOfDay(anchor) })
+    },
+    {
+        id: "lastQuarter", label: "Last quarter", stepMonths: 3,
+        compute: ({ anchor }) => { const q = DateUtils.startOfQuarter(anchor); return { startDate: new Date(q.getFullYear(), q.getMonth() - 3, 1), endDate: DateUtils.endOfDay(DateUtils.addDays(q, -1)) }; }
+    },
+    {
+        id: "yearToDate", label: "Year to date", stepMonths: 12,
+        compute: ({ anchor }) => ({ startDate: new Date(anchor.getFullYear(), 0, 1), endDate: DateUtils.endOfDay(anchor) })
+    },
+    {
+        id: "lastYear", label: "Last year", stepMonths: 12, relative: relative(models.RelativeDateOperators.InLast, 1, models.RelativeDateFilterTimeUnit.CalendarYears),
+        compute: ({ anchor }) => ({ startDate: new Date(anchor.getFullYear() - 1, 0, 1), endDate: DateUtils.endOfDay(new Date(anchor.getFullYear() - 1, 11, 31)) })
+    },
+    {
+        id: "fiscalYearToDate", label: "Fiscal year to date", stepMonths: 12,
+        compute: ({ anchor, fiscalYearStartMonth }) => ({ startDate: DateUtils.startOfFiscalYear(anchor, fiscalYearStartMonth), endDate: DateUtils.endOfDay(anchor) })
+    },
+    {
+        id: "lastFiscalYear", label: "Last fiscal year", stepMonths: 12,
+        compute: ({ anchor, fiscalYearStartMonth }) => {
+            const fy = DateUtils.startOfFiscalYear(anchor, fiscalYearStartMonth);
+            return { startDate: new Date(fy.getFullYear() - 1, fy.getMonth(), 1), endDate: DateUtils.endOfDay(DateUtils.addDays(fy, -1)) };
+        }
+    }
+].forEach(p => DatePresetRegistry.register(p));
+
+/** en-US fallbacks; keep in sync with stringResources/en-US/resources.resjson. */
+const DEFAULT_STRINGS: { [key: string]: string } = {
+    Title_Default: "Date Range Filter",
+    QuickSelect_Label: "Quick Select:",
+    StartDate_Label: "Start Date:",
+    EndDate_Label: "End Date:",
+    Apply_Button: "Apply Filter",
+    Clear_Button: "Show All Data",
+    Calendar_Toggle: "Pick on calendar",
+    Aria_StartTime: "Start time",
+    Aria_EndTime: "End time",
+    Aria_Calendar: "Choose a date range",
+    Aria_PrevMonth: "Previous month",
+    Aria_NextMonth: "Next month",
+    Aria_DayHasData: "{0} (has data)",
+    Aria_Pill: "Date range: {0}. Select to change",
+    Aria_ClosePanel: "Close",
+    Pill_Range: "{0} - {1}",
+    Aria_PrevPeriod: "Previous period",
+    Aria_NextPeriod: "Next period",
+    Compare_Label: "Compare with:",
+    Compare_none: "No comparison",
+    Compare_previousPeriod: "Previous period",
+    Compare_samePeriodLastYear: "Same period last year",
+    Column_Label: "Filter on:",
+    Column_Overlap: "Active during period ({0} - {1})",
+    Banner_AddField: "Add a date field to the Fields area",
+    Banner_ConnectedTo: "Connected to: {0}",
+    Banner_ConnectedOverlap: "Connected to: {0} - {1} (active during period)",
+    Banner_Selected: "Selected: {0} to {1}",
+    Banner_Range: "Range: {0} to {1}",
+    Banner_Rolling: "Rolling: {0}",
+    Banner_TimeZone: "Source time zone: {0}",
+    Banner_TimeZoneInvalid: "Unknown time zone \"{0}\" - using viewer local time",
+    Banner_Comparison: "Compared with: {0} to {1}",
+    Error_StartAfterEnd: "Start date must be before end date",
+    Error_InvalidStart: "Enter a valid start date",
+    Error_InvalidEnd: "Enter a valid end date",
+    Error_MaxSpan: "The range covers {0} days; the limit is {1} days",
+    Error_OutsideData: "No data in this range - the data covers {0} to {1}",
+    Warning_NoDataInRange: "No rows fall on any day in this range",
+    Warning_UnknownBounds: "The data's date range is unknown, so this range can't be checked against it",
+    Warning_OutsideLoadedData: "No loaded rows in this range - the rows loaded so far cover {0} to {1}",
+    Error_NoDateField: "Unable to apply filter - add a date field",
+    Error_FilterBuild: "Filter couldn't be built",
+    Error_Apply: "Error applying filter.",
+    Error_Clear: "Error clearing filters.",
+    Success_Applied: "Filter applied successfully!",
+    Success_AppliedComparison: "Filter applied, compared with {0} to {1}",
+    Success_RollingApplied: "Rolling filter applied: {0}",
+    Success_Cleared: "All filters cleared - showing full data",
+    Preset_last4Hours: "Last 4 hours",
+    Preset_last24Hours: "Last 24 hours",
+    Preset_today: "Today",
+    Preset_yesterday: "Yesterday",
+    Preset_last7Days: "Last 7 days",
+    Preset_last30Days: "Last 30 days",
+    Preset_last90Days: "Last 90 days",
+    Preset_thisWeek: "This week",
+    Preset_lastWeek: "Last week",
+    Preset_monthToDate: "Month to date",
+    Preset_lastMonth: "Last month",
+    Preset_quarterToDate: "Quarter to date",
+    Preset_lastQuarter: "Last quarter",
+    Preset_yearToDate: "Year to date",
+    Preset_lastYear: "Last year",
+    Preset_fiscalYearToDate: "Fiscal year to date",
+    Preset_lastFiscalYear: "Last fiscal year",
+    Preset_custom: "Custom",
+    Relative_Today: "today",
+    Relative_Yesterday: "yesterday",
+    Relative_Tomorrow: "tomorrow",
+    Relative_ExcludingToday: "{0} (excluding today)",
+    Relative_This_week: "this week",
+    Relative_This_month: "this month",
+    Relative_This_year: "this year",
+    Relative_Last1_day: "last day",
+    Relative_LastN_day: "last {0} days",
+    Relative_Next1_day: "next day",
+    Relative_NextN_day: "next {0} days",
+    Relative_Last1_week: "last week",
+    Relative_LastN_week: "last {0} weeks",
+    Relative_Next1_week: "next week",
+    Relative_NextN_week: "next {0} weeks",
+    Relative_Last1_calendarWeek: "last calendar week",
+    Relative_LastN_calendarWeek: "last {0} calendar weeks",
+    Relative_Next1_calendarWeek: "next calendar week",
+    Relative_NextN_calendarWeek: "next {0} calendar weeks",
+    Relative_Last1_month: "last month",
+    Relative_LastN_month: "last {0} months",
+    Relative_Next1_month: "next month",
+    Relative_NextN_month: "next {0} months",
+    Relative_Last1_calendarMonth: "last calendar month",
+    Relative_LastN_calendarMonth: "last {0} calendar months",
+    Relative_Next1_calendarMonth: "next calendar month",
+    Relative_NextN_calendarMonth: "next {0} calendar months",
+    Relative_Last1_year: "last year",
+    Relative_LastN_year: "last {0} years",
+    Relative_Next1_year: "next year",
+    Relative_NextN_year: "next {0} years",
+    Relative_Last1_calendarYear: "last calendar year",
+    Relative_LastN_calendarYear: "last {0} calendar years",
+    Relative_Next1_calendarYear: "next calendar year",
+    Relative_NextN_calendarYear: "next {0} calendar years",
+    Relative_Last1_hour: "last hour",
+    Relative_LastN_hour: "last {0} hours",
+    Relative_Next1_hour: "next hour",
+    Relative_NextN_hour: "next {0} hours",
+    Relative_Last1_minute: "last minute",
+    Relative_LastN_minute: "last {0} minutes",
+    Relative_Next1_minute: "next minute",
+    Relative_NextN_minute: "next {0} minutes"
+};
+
+// Regions whose calendars start the week on Sunday; everything else defaults to Monday.
+const SUNDAY_WEEK_REGIONS = ["US", "CA", "MX", "BR", "JP", "KR", "TW", "HK", "IL", "PH", "IN", "ZA"];
+
+/** UI strings from stringResources via the host's localization manager, plus locale-aware date display. */
+export class LocalizationService implements ILocalizationService {
+    readonly locale: string;
+    readonly dayFirst: boolean;
+    readonly defaultWeekStartDay: number;
+    private manager: any;
+
+    constructor(host: any) {
+        this.locale = LocalizationService.isSupportedLocale(host?.locale) ? host.locale : "en-US";
+        this.manager = typeof host?.createLocalizationManager === "function" ? host.createLocalizationManager() : null;
+        this.dayFirst = LocalizationService.isDayFirst(this.locale);
+        const region = (this.locale.split("-")[1] || "").toUpperCase();
+        this.defaultWeekStartDay = region ? (SUNDAY_WEEK_REGIONS.indexOf(region) >= 0 ? 0 : 1) : (this.locale.indexOf("en") === 0 ? 0 : 1);
+    }
+    /** Looks up `key`, falling back to the built-in English text; `{0}`, `{1}`... are replaced by `args`. */
+    getString(key: string, ...args: (string | number)[]): string {
+        let text: string = this.manager ? this.manager.getDisplayName(key) : "";
+        if (!text || text === key) text = DEFAULT_STRINGS[key] ?? key;
+        return text.replace(/\{(\d+)\}/g, (m, i) => args[+i] !== undefined ? String(args[+i]) : m);
+    }
+    formatDisplayDate(date: Date): string {
+        if (!date || isNaN(date.getTime())) return "";
+        return new Intl.DateTimeFormat(this.locale, { year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+    }
+    formatDisplayDateTime(date: Date, granularity: TimeGranularity): string {
+        if (!date || isNaN(date.getTime())) return "";
+        const opts: Intl.DateTimeFormatOptions = { year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" };
+        if (granularity === "second") opts.second = "2-digit";
+        return new Intl.DateTimeFormat(this.locale, opts).format(date);
+    }
+    monthName(month: number): string {
+        const text = new Intl.DateTimeFormat(this.locale, { month: "long" }).format(new Date(2000, month, 1));
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+    /** `day` is 0 = Sunday ... 6 = Saturday. */
+    weekdayShort(day: number): string {
+        // 2000-01-02 was a Sunday.
+        return new Intl.DateTimeFormat(this.locale, { weekday: "short" }).format(new Date(2000, 0, 2 + day)).slice(0, 2);
+    }
+    private static isSupportedLocale(locale: any): boolean {
+        if (!locale || typeof locale !== "string") return false;
+        try { return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0; } catch (e) { return false; }
+    }
+    private static isDayFirst(locale: string): boolean {
+        const parts = new Intl.DateTimeFormat(locale, { year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(new Date(2000, 10, 22));
+        const idx = (type: string) => parts.findIndex(p => p.type === type);
+        return idx("day") < idx("month");
+    }
+}
+
+/**
+ * Color overrides for style/visual.less, published as CSS custom properties on the visual's root; the stylesheet
+ * holds the defaults. In high-contrast mode only the palette's foreground, background and selection colors are
+ * used, as Power BI requires.
+ */
+export class ThemeUtils {
+    /** Every color the stylesheet declares; high contrast overrides them all. */
+    static readonly NAMES = ["--dtp-foreground", "--dtp-background", "--dtp-title", "--dtp-secondary", "--dtp-subtle", "--dtp-divider",
+        "--dtp-accent", "--dtp-accent-hover", "--dtp-on-accent", "--dtp-range", "--dtp-range-preview", "--dtp-data-day", "--dtp-neutral",
+        "--dtp-neutral-hover", "--dtp-ok", "--dtp-ok-background", "--dtp-warning", "--dtp-warning-border", "--dtp-warning-background",
+        "--dtp-error", "--dtp-error-background"];
+    private static readonly BACKGROUNDS = ["--dtp-background", "--dtp-on-accent", "--dtp-range", "--dtp-range-preview", "--dtp-data-day",
+        "--dtp-neutral", "--dtp-neutral-hover", "--dtp-ok-background", "--dtp-warning-background", "--dtp-error-background"];
+
+    /** `palette` is `host.colorPalette`; `titleColor` is the format-pane title color, ignored in high contrast. */
+    static getColors(palette: any, titleColor?: string): { [name: string]: string } {
+        const colors: { [name: string]: string } = {};
+        const foreground: string | undefined = palette?.foreground?.value, background: string | undefined = palette?.background?.value;
+        if (palette?.isHighContrast && foreground && background) {
+            const selected: string = palette.foregroundSelected?.value || foreground;
+            ThemeUtils.NAMES.forEach(name => { colors[name] = ThemeUtils.BACKGROUNDS.indexOf(name) >= 0 ? background : foreground; });
+            colors["--dtp-accent"] = selected;
+            colors["--dtp-accent-hover"] = palette.hyperlink?.value || selected;
+            return colors;
         }
-        return { minDate: min, maxDate: max };
+        if (foreground) colors["--dtp-foreground"] = foreground;
+        if (background) colors["--dtp-background"] = background;
+        if (titleColor) colors["--dtp-title"] = titleColor;
+        return colors;
+    }
+    /** Drops overrides an earlier palette set (e.g. leaving high contrast), so the stylesheet's defaults show again. */
+    static apply(element: HTMLElement, colors: { [name: string]: string }): void {
+        ThemeUtils.NAMES.forEach(name => colors[name] ? element.style.setProperty(name, colors[name]) : element.style.removeProperty(name));
+    }
+}
+
+/** Picks the layout from the format pane, or from the viewport when it is left on "auto". */
+export class LayoutUtils {
+    static readonly MODES: LayoutMode[] = ["vertical", "horizontal", "compact"];
+
+    static resolve(setting: string, viewport?: { width: number; height: number }): LayoutMode {
+        if ((LayoutUtils.MODES as string[]).indexOf(setting) >= 0) return setting as LayoutMode;
+        if (!viewport) return "vertical";
+        const fits = (min: { width: number; height: number }) => viewport.width >= min.width && viewport.height >= min.height;
+        if (fits(VERTICAL_MIN_SIZE)) return "vertical";
+        return fits(HORIZONTAL_MIN_SIZE) ? "horizontal" : "compact";
     }
 }
 
+/** Writes into a live region (set up by the visual) so screen readers announce messages before they hide. */
 class MessageService implements IMessageService {
+    private hideTimer: any = null;
     constructor(private messageDiv: HTMLDivElement) { }
     showSuccess(m: string) { this.show(m, false); }
     showError(m: string) { this.show(m, true); }
     private show(text: string, isError: boolean) {
+        this.messageDiv.setAttribute("aria-live", isError ? "assertive" : "polite");
         this.messageDiv.textContent = text;
+        this.messageDiv.className = isError ? "message error" : "message success";
         this.messageDiv.style.display = "block";
-        if (isError) { this.messageDiv.style.background = "#fed9cc"; this.messageDiv.style.border = "1px solid #d83b01"; this.messageDiv.style.color = "#d83b01"; }
-        else { this.messageDiv.style.background = "#dff6dd"; this.messageDiv.style.border = "1px solid #107c10"; this.messageDiv.style.color = "#107c10"; }
-        setTimeout(() => { this.messageDiv.style.display = "none"; }, 2500);
+        clearTimeout(this.hideTimer);
+        this.hideTimer = setTimeout(() => { this.messageDiv.style.display = "none"; }, 2500);
     }
 }
 
-class FilterService implements IFilterService {
+export class FilterService implements IFilterService {
     private dateColumn: IDateColumnInfo | null = null;
+    private endColumn: IDateColumnInfo | null = null;
+    private compareColumn: IDateColumnInfo | null = null;
+    private timeZone: string = TimeZoneUtils.LOCAL;
     
-    constructor(private host: any, private messageService: IMessageService) { }
-    setDateColumn(column: IDateColumnInfo | null): void { this.dateColumn = column; }
+    constructor(private host: any, private messageService: IMessageService, private l10n: ILocalizationService) { }
+    /** With an `endColumn` the range filters rows whose [column, endColumn] period overlaps it (blank end = still open). */
+    setDateColumn(column: IDateColumnInfo | null, endColumn: IDateColumnInfo | null = null): void { this.dateColumn = column; this.endColumn = column ? endColumn : null; }
+    /** Zone the source column's values are stored in; boundaries are written as wall-clock time in it. */
+    setTimeZone(zone: string): void { this.timeZone = zone; }
+    /** Field filtered to the comparison window; it should come from a separate date table so both filters can hold. */
+    setComparisonColumn(column: IDateColumnInfo | null): void { this.compareColumn = column; }
 
     private getTargetFromQueryName(qn: string, displayName: string): { table: string, column: string } {
         if (!qn) return { table: "Table", column: displayName || "Date" };
@@ -108,38 +741,128 @@ class FilterService implements IFilterService {
         if (m) return { table: m[1], column: m[2] };
         return { table: "Table", column: displayName || qn };
     }
+    private getTarget(column: IDateColumnInfo): models.IFilterColumnTarget {
+        const targetObj = this.getTargetFromQueryName(column.queryName, column.displayName);
+        return { table: targetObj.table, column: targetObj.column };
+    }
+    private findFilter(filters: any[], column: IDateColumnInfo): any {
+        const target = this.getTarget(column);
+        return filters.find(f => f && f.target && f.target.table === target.table && f.target.column === target.column &&
+            (Array.isArray(f.conditions) || typeof f.timeUnitsCount === "number"));
+    }
 
-    private formatDateForDirectQuery(date: Date, isStart: boolean): string {
-        const y = date.getFullYear(); const m = String(date.getMonth() + 1).padStart(2, "0"); const d = String(date.getDate()).padStart(2, "0");
-        return isStart ? `${y}-${m}-${d}T00:00:00.000` : `${y}-${m}-${d}T23:59:59.999`;
+    private formatDateForDirectQuery(date: Date): string {
+        return TimeZoneUtils.formatInZone(date, this.timeZone);
     }
 
     
-    private createAdvancedFilter(dateRange: IDateRange): models.AdvancedFilter | null {
-        if (!this.dateColumn) return null;
-        const targetObj = this.getTargetFromQueryName(this.dateColumn.queryName, this.dateColumn.displayName);
-        const target: models.IFilterTarget = { table: targetObj.table, column: targetObj.column };
-        const start = this.formatDateForDirectQuery(dateRange.startDate, true);
-        const end = this.formatDateForDirectQuery(dateRange.endDate, false);
+    private createAdvancedFilter(dateRange: IDateRange, column: IDateColumnInfo | null = this.dateColumn): models.AdvancedFilter | null {
+        if (!column) return null;
+        const target = this.getTarget(column);
+        const start = this.formatDateForDirectQuery(dateRange.startDate);
+        const end = this.formatDateForDirectQuery(dateRange.endDate);
         const conditions: models.IAdvancedFilterCondition[] = [
             { operator: "GreaterThanOrEqual", value: start },
             { operator: "LessThanOrEqual", value: end }
         ];
         return new models.AdvancedFilter(target, "And", conditions);
     }
-    applyFilter(dateRange: IDateRange): void {
-        if (!this.dateColumn) { this.messageService.showError("Unable to apply filter - add a date field"); return; }
+    /** Rows active during the range: `column <= end` AND (`endColumn >= start` OR `endColumn` is blank). */
+    private createOverlapFilters(dateRange: IDateRange): models.AdvancedFilter[] | null {
+        if (!this.dateColumn || !this.endColumn) return null;
+        return [
+            new models.AdvancedFilter(this.getTarget(this.dateColumn), "And", [{ operator: "LessThanOrEqual", value: this.formatDateForDirectQuery(dateRange.endDate) }]),
+            new models.AdvancedFilter(this.getTarget(this.endColumn), "Or", [
+                { operator: "GreaterThanOrEqual", value: this.formatDateForDirectQuery(dateRange.startDate) },
+                { operator: "IsBlank" }
+            ])
+        ];
+    }
+    private createRelativeFilter(relative: IRelativeRange): models.RelativeDateFilter | models.RelativeTimeFilter | null {
+        if (!this.dateColumn) return null;
+        const target = this.getTarget(this.dateColumn);
+        if (DateUtils.isTimeUnit(relative.timeUnitType)) return new models.RelativeTimeFilter(target, relative.operator, relative.timeUnitsCount, relative.timeUnitType);
+        return new models.RelativeDateFilter(target, relative.operator, relative.timeUnitsCount, relative.timeUnitType, relative.includeToday);
+    }
+    /**
+     * Decodes the persisted filter on the current column (from `options.jsonFilters`): advanced or relative date/time,
+     * plus the comparison column's range when it was filtered too.
+     */
+    getAppliedSelection(filters?: any[]): IAppliedSelection | null {
+        return this.getAppliedSelectionFor(filters, this.dateColumn, this.endColumn);
+    }
+    /** Same decoding for any column (or from/to pair), without retargeting the service. */
+    getAppliedSelectionFor(filters: any[] | undefined, column: IDateColumnInfo | null, endColumn: IDateColumnInfo | null = null): IAppliedSelection | null {
+        if (!column || !filters || !filters.length) return null;
+        const selection = endColumn ? this.getAppliedOverlap(filters, column, endColumn) : this.getAppliedRange(filters, column);
+        const comparison = selection && this.compareColumn ? this.decodeRange(this.findFilter(filters, this.compareColumn)) : null;
+        return selection && comparison ? { ...selection, comparison } : selection;
+    }
+    private getAppliedRange(filters: any[], column: IDateColumnInfo): IAppliedSelection | null {
+        const filter = this.findFilter(filters, column);
+        if (!filter) return null;
+        if (typeof filter.timeUnitsCount === "number") {
+            const relative: IRelativeRange = { operator: filter.operator, timeUnitsCount: filter.timeUnitsCount, timeUnitType: filter.timeUnitType, includeToday: filter.includeToday !== false };
+            return { range: DateUtils.resolveRelative(relative, new Date()), relative };
+        }
+        const range = this.decodeRange(filter);
+        return range ? { range } : null;
+    }
+    /** The range an advanced `>= start And <= end` filter covers. */
+    private decodeRange(filter: any): IDateRange | null {
+        if (!Array.isArray(filter?.conditions)) return null;
+        let startDate: Date | null = null, endDate: Date | null = null;
+        (filter.conditions as models.IAdvancedFilterCondition[]).forEach(c => {
+            const dt = TimeZoneUtils.parseInZone(c.value, this.timeZone);
+            if (isNaN(dt.getTime())) return;
+            if (c.operator === "GreaterThanOrEqual") startDate = dt;
+            else if (c.operator === "LessThanOrEqual") endDate = dt;
+        });
+        return startDate && endDate ? { startDate, endDate } : null;
+    }
+    /** Both halves of an overlap filter must be present: the range end sits on `column`, the start on `endColumn`. */
+    private getAppliedOverlap(filters: any[], column: IDateColumnInfo, endColumn: IDateColumnInfo): IAppliedSelection | null {
+        const bound = (filter: any, operator: string): Date | null => {
+            const c = Array.isArray(filter?.conditions) ? (filter.conditions as models.IAdvancedFilterCondition[]).find(x => x.operator === operator) : undefined;
+            const dt = c ? TimeZoneUtils.parseInZone(c.value, this.timeZone) : new Date(NaN);
+            return isNaN(dt.getTime()) ? null : dt;
+        };
+        const endDate = bound(this.findFilter(filters, column), "LessThanOrEqual");
+        const startDate = bound(this.findFilter(filters, endColumn), "GreaterThanOrEqual");
+        return startDate && endDate ? { range: { startDate, endDate } } : null;
+    }
+    /** A `comparison` range is written on the comparison column in the same call; without one that column is left unfiltered. */
+    applyFilter(dateRange: IDateRange, comparison: IDateRange | null = null): void {
+        if (!this.dateColumn) { this.messageService.showError(this.l10n.getString("Error_NoDateField")); return; }
         try {
-            const filter = this.createAdvancedFilter(dateRange);
-            if (!filter) { this.messageService.showError("Filter couldn't be built"); return; }
+            let filter: models.AdvancedFilter | models.AdvancedFilter[] | null = this.endColumn ? this.createOverlapFilters(dateRange) : this.createAdvancedFilter(dateRange);
+            if (!filter) { this.messageService.showError(this.l10n.getString("Error_FilterBuild")); return; }
+            const compareFilter = comparison ? this.createAdvancedFilter(comparison, this.compareColumn) : null;
+            if (compareFilter) filter = ([] as models.AdvancedFilter[]).concat(filter, compareFilter);
 
             const MERGE = (powerbi as any).FilterAction?.merge ?? 0; // 0 = merge
             this.host.applyJsonFilter(filter, "general", "filter", MERGE);
 
-            this.messageService.showSuccess("Filter applied successfully!");
+            this.messageService.showSuccess(compareFilter
+                ? this.l10n.getString("Success_AppliedComparison", this.l10n.formatDisplayDate(comparison!.startDate), this.l10n.formatDisplayDate(comparison!.endDate))
+                : this.l10n.getString("Success_Applied"));
         } catch (e) { /* eslint-disable no-console */ 
             console.error(e); 
-            this.messageService.showError("Error applying filter."); }
+            this.messageService.showError(this.l10n.getString("Error_Apply")); }
+    }
+    applyRelativeFilter(relative: IRelativeRange): void {
+        if (!this.dateColumn) { this.messageService.showError(this.l10n.getString("Error_NoDateField")); return; }
+        try {
+            const filter = this.createRelativeFilter(relative);
+            if (!filter) { this.messageService.showError(this.l10n.getString("Error_FilterBuild")); return; }
+
+            const MERGE = (powerbi as any).FilterAction?.merge ?? 0; // 0 = merge
+            this.host.applyJsonFilter(filter, "general", "filter", MERGE);
+
+            this.messageService.showSuccess(this.l10n.getString("Success_RollingApplied", DateUtils.describeRelative(relative, this.l10n)));
+        } catch (e) { /* eslint-disable no-console */ 
+            console.error(e); 
+            this.messageService.showError(this.l10n.getString("Error_Apply")); }
     }
     clearFilter(): void {
         try {
@@ -147,201 +870,956 @@ class FilterService implements IFilterService {
             const REMOVE = (powerbi as any).FilterAction?.remove ?? 1; // 1 = remove
             this.host.applyJsonFilter(null, "general", "filter", REMOVE);
 
-            this.messageService.showSuccess("All filters cleared - showing full data");
-        } catch (e) { /* eslint-disable no-console */ console.error(e); this.messageService.showError("Error clearing filters."); }
+            this.messageService.showSuccess(this.l10n.getString("Success_Cleared"));
+        } catch (e) { /* eslint-disable no-console */ console.error(e); this.messageService.showError(this.l10n.getString("Error_Clear")); }
     }
 }
 
+/**
+ * Checks a range before it is applied. Errors: unreadable dates, start after end, a span over the limit, or a
+ * range entirely outside the data. Warnings: no scanned row falls in the range, the data bounds are unknown, or the
+ * range is outside bounds read from only part of the rows.
+ */
+export class RangeValidator implements IRangeValidator {
+    constructor(private l10n: ILocalizationService) { }
+    validate(range: IDateRange, constraints: IRangeConstraints): IValidationIssue[] {
+        const issues: IValidationIssue[] = [];
+        const error = (field: IValidationIssue["field"], key: string, ...args: (string | number)[]) => issues.push({ field, severity: "error", message: this.l10n.getString(key, ...args) });
+        const warning = (key: string, ...args: (string | number)[]) => issues.push({ field: "range", severity: "warning", message: this.l10n.getString(key, ...args) });
+        const { startDate, endDate } = range;
+        if (!startDate || isNaN(startDate.getTime())) error("start", "Error_InvalidStart");
+        if (!endDate || isNaN(endDate.getTime())) error("end", "Error_InvalidEnd");
+        if (issues.length) return issues;
+        if (!DateUtils.isValidDateRange(startDate, endDate)) { error("end", "Error_StartAfterEnd"); return issues; }
+
+        const days = RangeValidator.countDays(range);
+        if (constraints.maxRangeDays > 0 && days > constraints.maxRangeDays) error("range", "Error_MaxSpan", days, constraints.maxRangeDays);
+
+        const { minDate, maxDate } = constraints;
+        if (!constraints.boundsFromData || !minDate || !maxDate) { warning("Warning_UnknownBounds"); return issues; }
+        if (endDate < DateUtils.startOfDay(minDate) || startDate > DateUtils.endOfDay(maxDate)) {
+            if (constraints.partialBounds) warning("Warning_OutsideLoadedData", this.l10n.formatDisplayDate(minDate), this.l10n.formatDisplayDate(maxDate));
+            else error("range", "Error_OutsideData", this.l10n.formatDisplayDate(minDate), this.l10n.formatDisplayDate(maxDate));
+        } else if (constraints.dataDays && !RangeValidator.hasDataDay(range, constraints.dataDays)) {
+            warning("Warning_NoDataInRange");
+        }
+        return issues;
+    }
+    /** Calendar days touched by the range, so DST days and partial-day time ranges count as whole days. */
+    static countDays(range: IDateRange): number {
+        const start = DateUtils.startOfDay(range.startDate), end = DateUtils.startOfDay(range.endDate);
+        return Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+    }
+    private static hasDataDay(range: IDateRange, dataDays: { [day: string]: boolean }): boolean {
+        // YYYY-MM-DD keys sort chronologically, so a string comparison is a date comparison.
+        const from = DateUtils.formatDate(range.startDate), to = DateUtils.formatDate(range.endDate);
+        return Object.keys(dataDays).some(day => day >= from && day <= to);
+    }
+}
+
+/** Dropdown choosing which bound date field (or from/to pair) the range applies to; hidden when there is only one. */
+class DateColumnSelectorComponent implements IUIComponent {
+    private wrap!: HTMLDivElement; private select!: HTMLSelectElement;
+    private options: IDateColumnOption[] = [];
+    constructor(private onColumnSelected: (id: string) => void, private l10n: ILocalizationService) { }
+    render(container: HTMLElement): void {
+        this.wrap = document.createElement("div"); this.wrap.className = "column-select"; this.wrap.style.display = "none";
+        const l = document.createElement("label"); l.textContent = this.l10n.getString("Column_Label"); this.wrap.appendChild(l);
+        this.select = document.createElement("select"); this.select.id = l.htmlFor = nextElementId("column");
+        this.select.onchange = () => this.onColumnSelected(this.select.value);
+        this.wrap.appendChild(this.select);
+        container.appendChild(this.wrap);
+    }
+    update(data?: { options?: IDateColumnOption[]; selected?: string }): void {
+        if (!data) return;
+        if (data.options) {
+            const key = (o: IDateColumnOption[]) => o.map(x => `${x.id}=${x.label}`).join("\n");
+            if (key(data.options) !== key(this.options)) {
+                this.select.innerHTML = "";
+                data.options.forEach(o => { const opt = document.createElement("option"); opt.value = o.id; opt.textContent = o.label; this.select.appendChild(opt); });
+            }
+            this.options = data.options;
+            this.wrap.style.display = this.options.length > 1 ? "" : "none";
+        }
+        if (data.selected !== undefined) this.select.value = data.selected;
+    }
+}
+
+/** Presets as an ARIA radio group: arrow keys (and Home/End) move focus and select, like native radio buttons. */
 class PredefinedRangesComponent implements IUIComponent {
-    private container!: HTMLElement;
-    private selectedRange: PredefinedRange = PredefinedRange.LATEST_7_DAYS;
-    constructor(private onRangeSelected: (r: PredefinedRange) => void) { }
+    private box!: HTMLDivElement;
+    private buttons: HTMLButtonElement[] = [];
+    private selectedRange: string = DEFAULT_PRESET;
+    private options: IPresetOption[] = [];
+    constructor(private onRangeSelected: (id: string) => void, private l10n: ILocalizationService) { }
     render(container: HTMLElement): void {
-        this.container = container;
-        const wrap = document.createElement("div"); wrap.style.cssText = "display:flex;flex-direction:column;gap:4px;margin-bottom:12px;";
-        const title = document.createElement("div"); title.textContent = "Quick Select:"; title.style.cssText = "font-size:11px;font-weight:600;color:#323130;margin-bottom:6px;"; wrap.appendChild(title);
-        const box = document.createElement("div"); box.style.cssText = "display:flex;gap:4px;flex-wrap:wrap;"; wrap.appendChild(box);
-        const defs = [
-            { range: PredefinedRange.LATEST_7_DAYS, label: "Last 7 days" },
-            { range: PredefinedRange.LATEST_30_DAYS, label: "Last 30 days" },
-            { range: PredefinedRange.LATEST_90_DAYS, label: "Last 90 days" },
-            { range: PredefinedRange.CUSTOM, label: "Custom" }
-        ];
-        defs.forEach(({ range, label }) => {
-            const b = document.createElement("button"); b.textContent = label;
-            const sel = range === this.selectedRange;
-            b.style.cssText = `padding:4px 8px;border:1px solid ${sel ? "#0078d4" : "#605e5c"};background:${sel ? "#0078d4" : "#ffffff"};color:${sel ? "#ffffff" : "#323130"};border-radius:2px;font-size:10px;cursor:pointer;flex:1;min-width:60px;`;
-            b.onclick = () => { this.selectedRange = range; this.onRangeSelected(range); Array.from(box.querySelectorAll("button")).forEach(btn => { (btn as HTMLButtonElement).style.border = "1px solid #605e5c"; (btn as HTMLButtonElement).style.background = "#ffffff"; (btn as HTMLButtonElement).style.color = "#323130"; }); b.style.border = "1px solid #0078d4"; b.style.background = "#0078d4"; b.style.color = "#ffffff"; };
-            box.appendChild(b);
-        });
+        const wrap = document.createElement("div"); wrap.className = "quick-select";
+        const title = document.createElement("div"); title.className = "label"; title.id = nextElementId("quick-select"); title.textContent = this.l10n.getString("QuickSelect_Label"); wrap.appendChild(title);
+        this.box = document.createElement("div"); this.box.className = "buttons";
+        this.box.setAttribute("role", "radiogroup"); this.box.setAttribute("aria-labelledby", title.id);
+        wrap.appendChild(this.box);
+        this.renderButtons();
         container.appendChild(wrap);
     }
-    update(): void { }
+    update(data?: { presets?: IPresetOption[] }): void {
+        if (data?.presets && JSON.stringify(data.presets) !== JSON.stringify(this.options)) {
+            this.options = data.presets;
+            this.renderButtons();
+        }
+    }
+    setSelectedRange(id: string): void {
+        if (id === this.selectedRange) return;
+        this.selectedRange = id;
+        this.paintSelection();
+    }
+    private renderButtons(): void {
+        this.box.innerHTML = "";
+        this.buttons = this.options.map(({ id, label }, index) => {
+            const b = document.createElement("button"); b.type = "button"; b.textContent = label;
+            b.setAttribute("role", "radio");
+            b.onclick = () => this.select(id);
+            b.onkeydown = (e) => this.handleKeyDown(e, index);
+            this.box.appendChild(b);
+            return b;
+        });
+        this.paintSelection();
+    }
+    /** Roving tabindex: only the checked preset (or the first, when none is) is in the tab order. */
+    private paintSelection(): void {
+        const checked = this.options.findIndex(o => o.id === this.selectedRange);
+        this.buttons.forEach((b, i) => {
+            b.classList.toggle("active", i === checked);
+            b.setAttribute("aria-checked", String(i === checked));
+            b.tabIndex = i === (checked >= 0 ? checked : 0) ? 0 : -1;
+        });
+    }
+    private select(id: string): void {
+        this.selectedRange = id;
+        this.paintSelection();
+        this.onRangeSelected(id);
+    }
+    private handleKeyDown(e: KeyboardEvent, index: number): void {
+        const count = this.options.length;
+        const next = e.key === "ArrowRight" || e.key === "ArrowDown" ? (index + 1) % count
+            : e.key === "ArrowLeft" || e.key === "ArrowUp" ? (index - 1 + count) % count
+            : e.key === "Home" ? 0 : e.key === "End" ? count - 1 : -1;
+        if (next < 0) return;
+        e.preventDefault();
+        this.select(this.options[next].id);
+        this.buttons[next].focus();
+    }
 }
 
 class DateInputsComponent implements IUIComponent {
     private startDateInput!: HTMLInputElement; private endDateInput!: HTMLInputElement;
+    private startTimeInput!: HTMLInputElement; private endTimeInput!: HTMLInputElement;
     private minDate: Date | null = null; private maxDate: Date | null = null;
-    constructor(private onDateChange: (s: string, e: string) => void) { }
+    private showTime = false; private granularity: TimeGranularity = "minute";
+    private startError!: HTMLDivElement; private endError!: HTMLDivElement; private rangeIssue!: HTMLDivElement;
+    constructor(private onDateChange: (r: IDateRange) => void, private l10n: ILocalizationService) { }
     render(container: HTMLElement): void {
-        const form = document.createElement("div"); form.style.cssText = "display:flex;flex-direction:column;gap:8px;";
-        const mk = (labelText: string, name: string) => {
-            const c = document.createElement("div");
-            const l = document.createElement("label"); l.textContent = labelText; l.style.cssText = "display:block;margin-bottom:3px;font-size:11px;font-weight:600;color:#323130;"; c.appendChild(l);
-            const i = document.createElement("input"); i.type = "date"; i.name = name; i.style.cssText = "width:100%;padding:6px 8px;border:1px solid #605e5c;border-radius:2px;font-size:12px;box-sizing:border-box;"; c.appendChild(i);
-            return { c, i };
+        const form = document.createElement("div"); form.className = "date-inputs";
+        const mk = (labelText: string, timeLabel: string, name: string) => {
+            const c = document.createElement("div"); c.className = "field";
+            const l = document.createElement("label"); l.textContent = labelText; c.appendChild(l);
+            const row = document.createElement("div"); row.className = "field-row"; c.appendChild(row);
+            const i = document.createElement("input"); i.type = "date"; i.name = name; i.id = l.htmlFor = nextElementId(name); row.appendChild(i);
+            const t = document.createElement("input"); t.type = "time"; t.name = name.replace("Date", "Time"); t.setAttribute("aria-label", timeLabel); t.style.display = "none"; row.appendChild(t);
+            [i, t].forEach(el => el.addEventListener("change", () => this.onDateChange(this.getDateRange())));
+            const err = document.createElement("div"); err.className = "field-error"; err.id = nextElementId(name + "-error"); err.style.display = "none"; c.appendChild(err);
+            return { c, i, t, err };
         };
-        const s = mk("Start Date:", "startDate"); this.startDateInput = s.i; this.startDateInput.addEventListener("change", () => this.onDateChange(this.startDateInput.value, this.endDateInput.value)); form.appendChild(s.c);
-        const e = mk("End Date:", "endDate"); this.endDateInput = e.i; this.endDateInput.addEventListener("change", () => this.onDateChange(this.startDateInput.value, this.endDateInput.value)); form.appendChild(e.c);
+        const s = mk(this.l10n.getString("StartDate_Label"), this.l10n.getString("Aria_StartTime"), "startDate"); this.startDateInput = s.i; this.startTimeInput = s.t; this.startError = s.err; form.appendChild(s.c);
+        const e = mk(this.l10n.getString("EndDate_Label"), this.l10n.getString("Aria_EndTime"), "endDate"); this.endDateInput = e.i; this.endTimeInput = e.t; this.endError = e.err; form.appendChild(e.c);
+        this.rangeIssue = document.createElement("div"); this.rangeIssue.className = "range-issue"; this.rangeIssue.setAttribute("aria-live", "polite"); this.rangeIssue.style.display = "none"; form.appendChild(this.rangeIssue);
         container.appendChild(form);
     }
-    update(data?: { minDate?: Date; maxDate?: Date }): void {
-        if (data) { this.minDate = data.minDate ?? null; this.maxDate = data.maxDate ?? null; this.applyConstraints(); }
+    update(data?: { minDate?: Date; maxDate?: Date; showTime?: boolean; timeGranularity?: TimeGranularity }): void {
+        if (!data) return;
+        if ("minDate" in data || "maxDate" in data) { this.minDate = data.minDate ?? null; this.maxDate = data.maxDate ?? null; this.applyConstraints(); }
+        if (data.showTime !== undefined || data.timeGranularity !== undefined) {
+            const current = this.getDateRange();
+            if (data.showTime !== undefined) this.showTime = data.showTime;
+            if (data.timeGranularity !== undefined) this.granularity = data.timeGranularity;
+            [this.startTimeInput, this.endTimeInput].forEach(t => { t.style.display = this.showTime ? "" : "none"; t.step = this.granularity === "second" ? "1" : "60"; });
+            if (!isNaN(current.startDate.getTime()) && !isNaN(current.endDate.getTime())) this.setDateRange(current.startDate, current.endDate);
+        }
     }
     setDateRange(startDate: Date, endDate: Date): void {
         this.startDateInput.value = DateUtils.formatDate(startDate);
         this.endDateInput.value = DateUtils.formatDate(endDate);
+        this.startTimeInput.value = DateUtils.formatTime(startDate, this.granularity);
+        this.endTimeInput.value = DateUtils.formatTime(endDate, this.granularity);
+    }
+    /** Without time inputs the range spans whole days; with them the end covers its whole minute/second. */
+    getDateRange(): IDateRange {
+        if (!this.showTime) {
+            const s = DateUtils.parseDate(this.startDateInput.value), e = DateUtils.parseDate(this.endDateInput.value);
+            return { startDate: s, endDate: isNaN(e.getTime()) ? e : DateUtils.endOfDay(e) };
+        }
+        const startDate = DateUtils.combineDateTime(this.startDateInput.value, this.startTimeInput.value || "00:00");
+        const endDate = DateUtils.combineDateTime(this.endDateInput.value, this.endTimeInput.value || "23:59:59");
+        if (!isNaN(endDate.getTime())) endDate.setTime(endDate.getTime() + (this.granularity === "second" ? 999 : 59999 - endDate.getSeconds() * 1000));
+        return { startDate, endDate };
+    }
+    /** Shows validation inline: field errors under their input (and marked `aria-invalid`), range issues below both. */
+    setIssues(issues: IValidationIssue[]): void {
+        const show = (el: HTMLDivElement, issue?: IValidationIssue) => {
+            el.textContent = issue ? issue.message : "";
+            el.style.display = issue ? "" : "none";
+            if (el === this.rangeIssue) el.className = "range-issue" + (issue ? " " + issue.severity : "");
+        };
+        const mark = (inputs: HTMLInputElement[], error: HTMLDivElement, issue?: IValidationIssue) => {
+            show(error, issue);
+            inputs.forEach(i => {
+                if (issue) { i.setAttribute("aria-invalid", "true"); i.setAttribute("aria-describedby", error.id); }
+                else { i.removeAttribute("aria-invalid"); i.removeAttribute("aria-describedby"); }
+            });
+        };
+        mark([this.startDateInput, this.startTimeInput], this.startError, issues.find(i => i.field === "start"));
+        mark([this.endDateInput, this.endTimeInput], this.endError, issues.find(i => i.field === "end"));
+        // Errors outrank warnings when several range-level issues apply.
+        const range = issues.filter(i => i.field === "range").sort((a, b) => (a.severity === "error" ? 0 : 1) - (b.severity === "error" ? 0 : 1))[0];
+        show(this.rangeIssue, range);
+    }
+    focusField(field: IValidationIssue["field"]): void {
+        (field === "end" ? this.endDateInput : this.startDateInput).focus();
     }
-    getDateRange(): IDateRange { return { startDate: DateUtils.parseDate(this.startDateInput.value), endDate: DateUtils.parseDate(this.endDateInput.value) }; }
     private applyConstraints(): void {
         if (this.minDate) { const s = DateUtils.formatDate(this.minDate); this.startDateInput.min = s; this.endDateInput.min = s; }
         if (this.maxDate) { const e = DateUtils.formatDate(this.maxDate); this.startDateInput.max = e; this.endDateInput.max = e; }
     }
 }
 
+/** Previous/next arrows stepping the selection a period at a time, and the comparison dropdown (only with a comparison field bound). */
+class PeriodNavigationComponent implements IUIComponent {
+    private arrows!: HTMLDivElement; private compareWrap!: HTMLDivElement; private select!: HTMLSelectElement;
+    constructor(private onStep: (direction: number) => void, private onComparisonSelected: (mode: ComparisonMode) => void, private l10n: ILocalizationService) { }
+    render(container: HTMLElement): void {
+        const wrap = document.createElement("div"); wrap.className = "period-nav";
+        this.arrows = document.createElement("div"); this.arrows.className = "period-arrows";
+        const mk = (text: string, label: string, direction: number) => {
+            const b = document.createElement("button"); b.type = "button"; b.className = "period-step"; b.textContent = text; b.setAttribute("aria-label", label);
+            b.onclick = () => this.onStep(direction);
+            this.arrows.appendChild(b);
+        };
+        mk("\u2039", this.l10n.getString("Aria_PrevPeriod"), -1); mk("\u203A", this.l10n.getString("Aria_NextPeriod"), 1);
+        wrap.appendChild(this.arrows);
+        this.compareWrap = document.createElement("div"); this.compareWrap.className = "compare-select"; this.compareWrap.style.display = "none";
+        const l = document.createElement("label"); l.textContent = this.l10n.getString("Compare_Label"); this.compareWrap.appendChild(l);
+        this.select = document.createElement("select"); this.select.id = l.htmlFor = nextElementId("compare");
+        COMPARISON_MODES.forEach(mode => { const opt = document.createElement("option"); opt.value = mode; opt.textContent = this.l10n.getString(`Compare_${mode}`); this.select.appendChild(opt); });
+        this.select.onchange = () => this.onComparisonSelected(this.select.value as ComparisonMode);
+        this.compareWrap.appendChild(this.select);
+        wrap.appendChild(this.compareWrap);
+        container.appendChild(wrap);
+    }
+    update(data?: { showArrows?: boolean; showComparison?: boolean; mode?: ComparisonMode }): void {
+        if (!data) return;
+        if (data.showArrows !== undefined) this.arrows.style.display = data.showArrows ? "" : "none";
+        if (data.showComparison !== undefined) this.compareWrap.style.display = data.showComparison ? "" : "none";
+        if (data.mode !== undefined) this.select.value = data.mode;
+    }
+}
+
+/**
+ * Two-month range calendar: first click sets the start, second click the end, with a hover preview in between.
+ * Days are a roving-tabindex grid of buttons: arrow keys move by day/week (paging months as needed), Escape closes.
+ */
+class CalendarComponent implements IUIComponent {
+    private wrap!: HTMLDivElement; private popup!: HTMLDivElement; private toggleBtn!: HTMLButtonElement;
+    private viewMonth: Date = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+    private rangeStart: Date | null = null; private rangeEnd: Date | null = null;
+    private pendingStart: Date | null = null; private hoverDay: Date | null = null;
+    private minDate: Date | null = null; private maxDate: Date | null = null;
+    private dataDays: { [day: string]: boolean } | null = null;
+    private weekStartDay = 0;
+    private focusDay: Date | null = null;
+    private cells: { el: HTMLButtonElement; day: Date; disabled: boolean; hasData: boolean }[] = [];
+
+    constructor(private onRangeSelected: (r: IDateRange) => void, private l10n: ILocalizationService) { }
+    render(container: HTMLElement): void {
+        this.wrap = document.createElement("div"); this.wrap.className = "calendar";
+        this.toggleBtn = document.createElement("button"); this.toggleBtn.type = "button"; this.toggleBtn.className = "calendar-toggle"; this.toggleBtn.textContent = this.l10n.getString("Calendar_Toggle");
+        this.toggleBtn.setAttribute("aria-haspopup", "dialog"); this.toggleBtn.setAttribute("aria-expanded", "false");
+        this.toggleBtn.onclick = () => this.setOpen(this.popup.style.display === "none");
+        this.wrap.appendChild(this.toggleBtn);
+        this.popup = document.createElement("div"); this.popup.className = "calendar-popup"; this.popup.style.display = "none";
+        this.popup.setAttribute("role", "dialog"); this.popup.setAttribute("aria-label", this.l10n.getString("Aria_Calendar"));
+        this.popup.onkeydown = (e) => this.handleKeyDown(e);
+        this.wrap.appendChild(this.popup);
+        container.appendChild(this.wrap);
+    }
+    update(data?: { minDate?: Date; maxDate?: Date; dataDays?: { [day: string]: boolean }; weekStartDay?: number; visible?: boolean }): void {
+        if (!data) return;
+        if ("minDate" in data || "maxDate" in data) { this.minDate = data.minDate ? DateUtils.startOfDay(data.minDate) : null; this.maxDate = data.maxDate ? DateUtils.startOfDay(data.maxDate) : null; }
+        if ("dataDays" in data) this.dataDays = data.dataDays || null;
+        if (data.weekStartDay !== undefined) this.weekStartDay = data.weekStartDay;
+        if (data.visible !== undefined) { this.wrap.style.display = data.visible ? "" : "none"; if (!data.visible) this.setOpen(false); }
+        if (this.isOpen()) this.renderMonths();
+    }
+    setRange(startDate: Date, endDate: Date): void {
+        this.rangeStart = isNaN(startDate.getTime()) ? null : DateUtils.startOfDay(startDate);
+        this.rangeEnd = isNaN(endDate.getTime()) ? null : DateUtils.startOfDay(endDate);
+        this.pendingStart = null; this.hoverDay = null;
+        if (this.isOpen()) this.paint();
+    }
+    private isOpen(): boolean { return !!this.popup && this.popup.style.display !== "none"; }
+    private setOpen(open: boolean): void {
+        this.toggleBtn.setAttribute("aria-expanded", String(open));
+        if (open) {
+            const focus = this.rangeEnd || this.maxDate || new Date();
+            this.viewMonth = new Date(focus.getFullYear(), focus.getMonth() - 1, 1);
+            this.focusDay = this.rangeStart || DateUtils.startOfDay(focus);
+            this.popup.style.display = "block";
+            this.renderMonths();
+            this.focusCell(this.focusDay);
+        } else {
+            this.popup.style.display = "none";
+            this.pendingStart = null; this.hoverDay = null;
+        }
+    }
+    private renderMonths(): void {
+        this.popup.innerHTML = ""; this.cells = [];
+        const nav = document.createElement("div"); nav.className = "calendar-nav";
+        const mkNav = (text: string, label: string, delta: number) => {
+            const b = document.createElement("button"); b.type = "button"; b.textContent = text; b.setAttribute("aria-label", label);
+            b.onclick = () => { this.viewMonth = new Date(this.viewMonth.getFullYear(), this.viewMonth.getMonth() + delta, 1); this.renderMonths(); };
+            return b;
+        };
+        nav.appendChild(mkNav("\u2039", this.l10n.getString("Aria_PrevMonth"), -1)); nav.appendChild(mkNav("\u203A", this.l10n.getString("Aria_NextMonth"), 1));
+        this.popup.appendChild(nav);
+        const months = document.createElement("div"); months.className = "calendar-months";
+        [0, 1].forEach(offset => months.appendChild(this.renderMonth(new Date(this.viewMonth.getFullYear(), this.viewMonth.getMonth() + offset, 1))));
+        this.popup.appendChild(months);
+        this.paint();
+    }
+    private renderMonth(first: Date): HTMLDivElement {
+        const m = document.createElement("div"); m.className = "calendar-month";
+        const title = document.createElement("div"); title.className = "calendar-month-title"; title.textContent = `${this.l10n.monthName(first.getMonth())} ${first.getFullYear()}`; m.appendChild(title);
+        const grid = document.createElement("div"); grid.className = "calendar-grid"; m.appendChild(grid);
+        for (let i = 0; i < 7; i++) {
+            const h = document.createElement("div"); h.className = "calendar-weekday"; h.setAttribute("aria-hidden", "true"); h.textContent = this.l10n.weekdayShort((this.weekStartDay + i) % 7); grid.appendChild(h);
+        }
+        const lead = (first.getDay() - this.weekStartDay + 7) % 7;
+        for (let i = 0; i < lead; i++) grid.appendChild(document.createElement("div"));
+        const days = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+        for (let d = 1; d <= days; d++) {
+            const day = new Date(first.getFullYear(), first.getMonth(), d);
+            const el = document.createElement("button"); el.type = "button"; el.textContent = String(d);
+            const disabled = (!!this.minDate && day < this.minDate) || (!!this.maxDate && day > this.maxDate);
+            const hasData = !!this.dataDays && !!this.dataDays[DateUtils.formatDate(day)];
+            const label = this.l10n.formatDisplayDate(day);
+            el.setAttribute("aria-label", hasData ? this.l10n.getString("Aria_DayHasData", label) : label);
+            el.disabled = disabled;
+            el.onclick = () => this.handleDayClick(day);
+            el.onmouseenter = () => { if (this.pendingStart) { this.hoverDay = day; this.paint(); } };
+            this.cells.push({ el, day, disabled, hasData });
+            grid.appendChild(el);
+        }
+        return m;
+    }
+    /** Restyles cells in place so hover preview doesn't rebuild the grid under the pointer. */
+    private paint(): void {
+        let from = this.rangeStart, to = this.rangeEnd;
+        if (this.pendingStart) {
+            from = this.pendingStart; to = this.hoverDay || this.pendingStart;
+            if (to < from) { const t = from; from = to; to = t; }
+        }
+        const focusable = this.cells.find(c => !c.disabled && !!this.focusDay && c.day.getTime() === this.focusDay.getTime()) || this.cells.find(c => !c.disabled);
+        this.cells.forEach(cell => {
+            const { el, day, hasData } = cell;
+            const edge = (!!from && day.getTime() === from.getTime()) || (!!to && day.getTime() === to.getTime());
+            const inRange = !!from && !!to && day >= from && day <= to;
+            el.className = "calendar-day" + (edge ? " edge" : inRange ? (this.pendingStart ? " preview" : " in-range") : "") + (hasData ? " has-data" : "");
+            el.setAttribute("aria-pressed", String(inRange));
+            el.tabIndex = cell === focusable ? 0 : -1;
+        });
+    }
+    private focusCell(day: Date): void {
+        this.focusDay = day;
+        let cell = this.cells.find(c => c.day.getTime() === day.getTime());
+        if (!cell) {
+            // Page so the day is visible: into the left month going back, the right month going forward.
+            const before = day < this.viewMonth;
+            this.viewMonth = new Date(day.getFullYear(), day.getMonth() - (before ? 0 : 1), 1);
+            this.renderMonths();
+            cell = this.cells.find(c => c.day.getTime() === day.getTime());
+        }
+        if (this.pendingStart) { this.hoverDay = day; }
+        this.paint();
+        if (cell && !cell.disabled) cell.el.focus();
+    }
+    private handleKeyDown(e: KeyboardEvent): void {
+        if (e.key === "Escape") { e.preventDefault(); this.setOpen(false); this.toggleBtn.focus(); return; }
+        const step = ({ ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 } as { [key: string]: number })[e.key];
+        const cell = this.cells.find(c => c.el === e.target);
+        if (!cell || !step) return;
+        e.preventDefault();
+        const day = DateUtils.addDays(cell.day, step);
+        if ((this.minDate && day < this.minDate) || (this.maxDate && day > this.maxDate)) return;
+        this.focusCell(day);
+    }
+    private handleDayClick(day: Date): void {
+        this.focusDay = day;
+        if (!this.pendingStart) { this.pendingStart = day; this.hoverDay = day; this.paint(); return; }
+        let start = this.pendingStart, end = day;
+        if (end < start) { const t = start; start = end; end = t; }
+        this.rangeStart = start; this.rangeEnd = end;
+        this.setOpen(false);
+        this.toggleBtn.focus();
+        this.onRangeSelected({ startDate: DateUtils.startOfDay(start), endDate: DateUtils.endOfDay(end) });
+    }
+}
+
 export class DateTimePickerVisual implements IVisual {
     private host: any; private target: HTMLElement;
-    private container!: HTMLDivElement; private messageDiv!: HTMLDivElement; private fieldInfo!: HTMLDivElement;
-    private messageService!: IMessageService; private filterService!: IFilterService;
-    private predefinedRangesComponent!: PredefinedRangesComponent; private dateInputsComponent!: DateInputsComponent;
-    private dateColumn: IDateColumnInfo | null = null; private currentRange: PredefinedRange = PredefinedRange.LATEST_7_DAYS;
+    private container!: HTMLDivElement; private titleEl!: HTMLHeadingElement; private messageDiv!: HTMLDivElement; private fieldInfo!: HTMLDivElement;
+    private messageService!: IMessageService; private filterService!: IFilterService; private l10n!: ILocalizationService;
+    private predefinedRangesComponent!: PredefinedRangesComponent; private dateInputsComponent!: DateInputsComponent; private calendarComponent!: CalendarComponent;
+    private columnSelectorComponent!: DateColumnSelectorComponent; private periodNavigationComponent!: PeriodNavigationComponent;
+    private dateColumns: IDateColumnInfo[] = []; private activeColumnId = "";
+    private dateColumn: IDateColumnInfo | null = null; private endColumn: IDateColumnInfo | null = null; private currentRange: string = DEFAULT_PRESET;
+    private showTime = false; private timeGranularity: TimeGranularity = "minute";
+    private settings: VisualSettings = new VisualSettings();
+    private syncKey = ""; private rolling: IRelativeRange | null = null; private filterActive = false;
+    private rangeValidator!: IRangeValidator; private applyBtn!: HTMLButtonElement; private autoApplyTimer: any = null;
+    private timeZone: string = TimeZoneUtils.LOCAL; private timeZoneError = "";
+    private pill!: HTMLButtonElement; private panel!: HTMLDivElement; private panelClose!: HTMLButtonElement;
+    private layout: LayoutMode = "vertical"; private viewport?: { width: number; height: number };
+    private compareColumn: IDateColumnInfo | null = null; private comparisonMode: ComparisonMode = "none";
+    /** Calendar step of the to-date preset the selection came from; kept while the arrows move it, dropped on manual edits. */
+    private stepMonths: number | undefined = undefined;
+    /** The range this session last wrote and the step it moved by, so the host echoing it back keeps that step. */
+    private lastApplied: { range: IDateRange; stepMonths?: number } | null = null;
 
     constructor(options: VisualConstructorOptions) {
         this.host = options.host; this.target = options.element;
+        this.l10n = new LocalizationService(this.host);
 
-        this.container = document.createElement("div");
-        this.container.style.cssText = "padding:15px;font-family:'Segoe UI',Tahoma,Geneva,Verdana,sans-serif;background:#fff;border:1px solid #d1d1d1;border-radius:6px;height:100%;box-sizing:border-box;overflow:auto;";
+        this.container = document.createElement("div"); this.container.className = "visual-container layout-vertical";
+        this.container.addEventListener("keydown", (e) => this.handleKeyDown(e));
         this.target.appendChild(this.container);
+        this.applyTheme();
+
+        // The compact layout shows only this pill; it discloses the panel holding everything else.
+        this.pill = document.createElement("button"); this.pill.type = "button"; this.pill.className = "pill";
+        this.pill.setAttribute("aria-expanded", "false");
+        this.pill.onclick = () => {
+            const open = !this.container.classList.contains("open");
+            this.setPanelOpen(open);
+            if (open) this.panelClose.focus();
+        };
+        this.container.appendChild(this.pill);
+        this.panel = document.createElement("div"); this.panel.className = "panel"; this.panel.id = nextElementId("panel");
+        this.pill.setAttribute("aria-controls", this.panel.id);
+        this.container.appendChild(this.panel);
+        // The open panel covers the pill, so it carries its own way back.
+        this.panelClose = document.createElement("button"); this.panelClose.type = "button"; this.panelClose.className = "panel-close"; this.panelClose.textContent = "\u00D7";
+        this.panelClose.setAttribute("aria-label", this.l10n.getString("Aria_ClosePanel"));
+        this.panelClose.onclick = () => { this.setPanelOpen(false); this.pill.focus(); };
+        this.panel.appendChild(this.panelClose);
 
-        const title = document.createElement("h3"); title.textContent = "Date Range Filter"; title.style.cssText = "margin:0 0 12px 0;color:#323130;font-size:14px;font-weight:600;padding-bottom:8px;border-bottom:1px solid #edebe9;"; this.container.appendChild(title);
+        this.titleEl = document.createElement("h3"); this.titleEl.className = "title"; this.titleEl.textContent = this.l10n.getString("Title_Default"); this.panel.appendChild(this.titleEl);
 
-        this.fieldInfo = document.createElement("div");
-        this.fieldInfo.style.cssText = "margin-bottom:12px;padding:6px 10px;background:#fff4ce;border:1px solid #ffb900;border-radius:3px;font-size:11px;color:#8a8886;";
-        this.fieldInfo.textContent = "Add a date field to the Fields area";
-        this.container.appendChild(this.fieldInfo);
+        // The banner restates the selection, so it doubles as a polite live region for preset/column changes.
+        this.fieldInfo = document.createElement("div"); this.fieldInfo.className = "field-info";
+        this.fieldInfo.setAttribute("role", "status"); this.fieldInfo.setAttribute("aria-live", "polite");
+        this.fieldInfo.textContent = this.l10n.getString("Banner_AddField");
+        this.panel.appendChild(this.fieldInfo);
 
         this.messageDiv = document.createElement("div"); this.messageService = new MessageService(this.messageDiv);
-        this.filterService = new FilterService(this.host, this.messageService);
+        this.filterService = new FilterService(this.host, this.messageService, this.l10n);
+        this.rangeValidator = new RangeValidator(this.l10n);
 
-        this.predefinedRangesComponent = new PredefinedRangesComponent((r) => this.handleRangeSelection(r)); this.predefinedRangesComponent.render(this.container);
-        this.dateInputsComponent = new DateInputsComponent((s, e) => this.handleDateChange(s, e)); this.dateInputsComponent.render(this.container);
+        this.columnSelectorComponent = new DateColumnSelectorComponent((id) => this.handleColumnSelection(id), this.l10n); this.columnSelectorComponent.render(this.panel);
+        this.predefinedRangesComponent = new PredefinedRangesComponent((r) => this.handleRangeSelection(r), this.l10n); this.predefinedRangesComponent.render(this.panel);
+        this.dateInputsComponent = new DateInputsComponent((r) => this.handleDateChange(r), this.l10n); this.dateInputsComponent.render(this.panel);
+        this.periodNavigationComponent = new PeriodNavigationComponent((d) => this.handlePeriodStep(d), (m) => this.handleComparisonSelection(m), this.l10n); this.periodNavigationComponent.render(this.panel);
+        this.calendarComponent = new CalendarComponent((r) => this.handleCalendarSelection(r), this.l10n); this.calendarComponent.render(this.panel);
 
-        const btnBox = document.createElement("div"); btnBox.style.cssText = "display:flex;gap:6px;margin:12px 0;";
-        const applyBtn = document.createElement("button"); applyBtn.textContent = "Apply Filter"; applyBtn.style.cssText = "flex:1;padding:8px 12px;background:#0078d4;color:white;border:none;border-radius:2px;font-size:12px;font-weight:600;cursor:pointer;"; applyBtn.onclick = () => this.applyFilter(); btnBox.appendChild(applyBtn);
-        const clearBtn = document.createElement("button"); clearBtn.textContent = "Show All Data"; clearBtn.style.cssText = "flex:1;padding:8px 12px;background:#8a8886;color:white;border:none;border-radius:2px;font-size:12px;font-weight:600;cursor:pointer;"; clearBtn.onclick = () => this.clearFilter(); btnBox.appendChild(clearBtn);
-        this.container.appendChild(btnBox);
+        const btnBox = document.createElement("div"); btnBox.className = "actions";
+        const applyBtn = this.applyBtn = document.createElement("button"); applyBtn.type = "button"; applyBtn.className = "apply-button"; applyBtn.textContent = this.l10n.getString("Apply_Button"); applyBtn.setAttribute("aria-keyshortcuts", "Enter"); applyBtn.onclick = () => this.applyFilter(); btnBox.appendChild(applyBtn);
+        const clearBtn = document.createElement("button"); clearBtn.type = "button"; clearBtn.className = "clear-button"; clearBtn.textContent = this.l10n.getString("Clear_Button"); clearBtn.setAttribute("aria-keyshortcuts", "Escape"); clearBtn.onclick = () => this.clearFilter(); btnBox.appendChild(clearBtn);
+        this.panel.appendChild(btnBox);
 
-        this.messageDiv.style.cssText = "margin-top:8px;padding:6px 10px;border-radius:3px;font-size:11px;display:none;"; this.container.appendChild(this.messageDiv);
+        this.messageDiv.className = "message"; this.messageDiv.setAttribute("role", "status"); this.messageDiv.setAttribute("aria-live", "polite"); this.messageDiv.setAttribute("aria-atomic", "true");
+        this.panel.appendChild(this.messageDiv);
+        this.updatePill();
     }
 
     public update(options: VisualUpdateOptions): void {
-        if (options?.viewport) { this.container.style.width = options.viewport.width + "px"; this.container.style.height = options.viewport.height + "px"; }
+        if (options?.viewport) {
+            this.viewport = { width: options.viewport.width, height: options.viewport.height };
+            this.container.style.width = this.viewport.width + "px"; this.container.style.height = this.viewport.height + "px";
+        }
+        this.settings = VisualSettings.parse(options?.dataViews?.[0]);
+        this.applySettings();
+        this.applyLayout();
         this.updateDataColumnInfo(options);
     }
 
-    private handleRangeSelection(range: PredefinedRange): void {
-        this.currentRange = range;
-        let startDate: Date, endDate: Date;
-        if (range !== PredefinedRange.CUSTOM) {
-            const maxRef = this.dateColumn?.maxDate || new Date();
-            const r = DateUtils.getDateRange(range, maxRef);
-            this.dateInputsComponent.setDateRange(r.startDate, r.endDate);
-            startDate = r.startDate; endDate = r.endDate;
-        } else {
-            const r = this.dateInputsComponent.getDateRange(); startDate = r.startDate; endDate = r.endDate;
-        }
-        this.updateFieldInfoLabel(startDate, endDate);
+    public getFormattingModel(): FormattingModel {
+        return this.settings.getFormattingModel();
+    }
+
+    private applySettings(): void {
+        const ap = this.settings.appearance, ds = this.settings.dateSettings;
+        // The stock default title follows the report locale; an author-typed title is shown as-is.
+        this.titleEl.textContent = ap.titleText === new VisualSettings().appearance.titleText ? this.l10n.getString("Title_Default") : ap.titleText;
+        this.titleEl.style.display = ap.showTitle ? "" : "none";
+        this.applyBtn.style.display = ds.applyOnChange ? "none" : "";
+        this.applyTheme();
+        this.showTime = ds.showTime;
+        this.timeGranularity = ds.timeGranularity === "second" ? "second" : "minute";
+        this.dateInputsComponent.update({ showTime: this.showTime, timeGranularity: this.timeGranularity });
+        this.predefinedRangesComponent.update({ presets: this.getVisiblePresets() });
+        this.calendarComponent.update({ visible: ds.showCalendar, weekStartDay: this.getPresetContext().weekStartDay });
+        this.periodNavigationComponent.update({ showArrows: this.settings.period.showArrows });
+        this.resolveTimeZone();
+        this.filterService.setTimeZone(this.timeZone);
     }
 
-    private handleDateChange(start: string, end: string): void {
-        if (start && end) {
-            const s = DateUtils.parseDate(start); const e = DateUtils.parseDate(end);
-            if (!DateUtils.isValidDateRange(s, e)) this.messageService.showError("Start date must be before end date");
-            this.updateFieldInfoLabel(s, e);
+    /** Re-read on every update: the palette switches live when the viewer toggles a Windows high-contrast theme. */
+    private applyTheme(): void {
+        const palette = this.host?.colorPalette;
+        ThemeUtils.apply(this.container, ThemeUtils.getColors(palette, this.settings.appearance.titleColor));
+        this.container.classList.toggle("high-contrast", !!palette?.isHighContrast);
+    }
+
+    /** Layout classes on the container switch the arrangement in visual.less; leaving compact closes its dropdown. */
+    private applyLayout(): void {
+        const layout = LayoutUtils.resolve(this.settings.appearance.layout, this.viewport);
+        if (layout === this.layout) return;
+        if (this.layout === "compact") this.setPanelOpen(false);
+        this.container.classList.remove("layout-" + this.layout);
+        this.layout = layout;
+        this.container.classList.add("layout-" + layout);
+    }
+
+    private setPanelOpen(open: boolean): void {
+        this.container.classList.toggle("open", open);
+        this.pill.setAttribute("aria-expanded", String(open));
+    }
+
+    /**
+     * Enter in a date/time input or on a preset applies the filter; Escape clears it (or first closes the compact
+     * dropdown). Controls that handle these keys themselves (the calendar popup closing on Escape, buttons
+     * activating on Enter) prevent the default first.
+     */
+    private handleKeyDown(e: KeyboardEvent): void {
+        if (e.defaultPrevented) return;
+        const target = e.target as HTMLElement;
+        if (e.key === "Escape" && this.layout === "compact" && this.container.classList.contains("open")) { e.preventDefault(); this.setPanelOpen(false); this.pill.focus(); return; }
+        if (e.key === "Escape") { e.preventDefault(); this.clearFilter(); return; }
+        if (e.key === "Enter" && (target.tagName === "INPUT" || target.getAttribute("role") === "radio")) { e.preventDefault(); this.applyFilter(); }
+    }
+
+    /** Picks the source zone from the format pane; an unknown fixed zone falls back to viewer-local time. */
+    private resolveTimeZone(): void {
+        const ds = this.settings.dateSettings;
+        this.timeZoneError = "";
+        if (ds.timeZoneMode === "utc") this.timeZone = TimeZoneUtils.UTC;
+        else if (ds.timeZoneMode === "fixed") {
+            const zone = (ds.timeZone || "").trim();
+            if (TimeZoneUtils.isValidZone(zone)) this.timeZone = zone;
+            else { this.timeZone = TimeZoneUtils.LOCAL; this.timeZoneError = this.l10n.getString("Banner_TimeZoneInvalid", zone); }
+        } else this.timeZone = TimeZoneUtils.LOCAL;
+    }
+
+    private setInputRange(startDate: Date, endDate: Date): void {
+        this.dateInputsComponent.setDateRange(startDate, endDate);
+        this.calendarComponent.setRange(startDate, endDate);
+    }
+
+    /** Calendar picks whole days; keep the typed times when time inputs are shown. */
+    private handleCalendarSelection(r: IDateRange): void {
+        if (this.showTime) {
+            const cur = this.dateInputsComponent.getDateRange();
+            if (!isNaN(cur.startDate.getTime())) r.startDate.setHours(cur.startDate.getHours(), cur.startDate.getMinutes(), cur.startDate.getSeconds(), 0);
+            if (!isNaN(cur.endDate.getTime())) r.endDate.setHours(cur.endDate.getHours(), cur.endDate.getMinutes(), cur.endDate.getSeconds(), cur.endDate.getMilliseconds());
         }
+        this.dateInputsComponent.setDateRange(r.startDate, r.endDate);
+        this.handleDateChange(this.dateInputsComponent.getDateRange());
+    }
+
+    /** Presets chosen in the format pane, minus hour-based ones while time inputs are off. */
+    private getVisiblePresets(): IPresetOption[] {
+        return DatePresetRegistry.resolve(this.settings.presets.presetList, this.l10n)
+            .filter(o => this.showTime || !DatePresetRegistry.get(o.id)?.requiresTime);
+    }
+
+    private getPresetContext(): IPresetContext {
+        const ps = this.settings.presets;
+        const anchor = ps.anchor === "today" ? new Date() : (this.getDataBounds().maxDate || new Date());
+        const weekStartDay = ps.weekStartDay === "auto" ? this.l10n.defaultWeekStartDay : Math.min(6, Math.max(0, Math.floor(+ps.weekStartDay) || 0));
+        const fiscalYearStartMonth = Math.min(12, Math.max(1, Math.floor(ps.fiscalYearStartMonth) || 1));
+        return { anchor, weekStartDay, fiscalYearStartMonth };
+    }
+
+    /** Default start/end from the format pane; when both are empty the default preset (last 7 days, else the first listed) is used. */
+    private getInitialRange(): { range: IDateRange; preset: string } {
+        const ds = this.settings.dateSettings;
+        const visible = this.getVisiblePresets().filter(o => o.id !== CUSTOM_PRESET);
+        const preset = visible.some(o => o.id === DEFAULT_PRESET) || !visible.length ? DEFAULT_PRESET : visible[0].id;
+        const fallback = this.getPresetRange(preset)!;
+        const start = DateUtils.parseDateTime(ds.startDate, this.l10n.dayFirst), end = DateUtils.parseDateTime(ds.endDate, this.l10n.dayFirst);
+        const hasStart = !isNaN(start.getTime()), hasEnd = !isNaN(end.getTime());
+        if (!hasStart && !hasEnd) return { range: fallback, preset };
+        return {
+            range: {
+                startDate: hasStart ? start : fallback.startDate,
+                endDate: hasEnd ? (/\d{1,2}:\d{2}/.test(ds.endDate) ? end : DateUtils.endOfDay(end)) : fallback.endDate
+            },
+            preset: CUSTOM_PRESET
+        };
+    }
+
+    /** The rolling filter a preset is written as, or null when it is written as fixed dates. */
+    private getRollingRelative(id: string): IRelativeRange | null {
+        const preset = DatePresetRegistry.get(id);
+        // Overlap filters span two columns and comparisons a second window, which a single relative filter can't express.
+        if (!this.settings.presets.rollingFilters || !preset?.relative || this.endColumn || (this.compareColumn && this.comparisonMode !== "none")) return null;
+        return preset.relative;
+    }
+
+    /** A preset written as a rolling filter shows the window that filter covers, which is relative to now whatever the anchor. */
+    private getPresetRange(id: string): IDateRange | null {
+        const relative = this.getRollingRelative(id);
+        return relative ? DateUtils.resolveRelative(relative, new Date()) : DatePresetRegistry.getRange(id, this.getPresetContext());
+    }
+
+    private handleRangeSelection(id: string): void {
+        this.currentRange = id; this.rolling = null; this.stepMonths = DatePresetRegistry.get(id)?.stepMonths;
+        const r = this.getPresetRange(id) || this.dateInputsComponent.getDateRange();
+        if (id !== CUSTOM_PRESET) this.setInputRange(r.startDate, r.endDate);
+        this.updateFieldInfoLabel(r.startDate, r.endDate);
+        this.validateSelection(r);
+        this.scheduleAutoApply();
+    }
+
+    private handleDateChange(r: IDateRange): void {
+        this.rolling = null; this.stepMonths = undefined;
+        if (this.currentRange !== CUSTOM_PRESET) { this.currentRange = CUSTOM_PRESET; this.predefinedRangesComponent.setSelectedRange(CUSTOM_PRESET); }
+        this.calendarComponent.setRange(r.startDate, r.endDate);
+        this.validateSelection(r);
+        if (!isNaN(r.startDate.getTime()) && !isNaN(r.endDate.getTime())) this.updateFieldInfoLabel(r.startDate, r.endDate);
+        else this.updatePill();
+        this.scheduleAutoApply();
+    }
+
+    /** Moves the selection a period back or forward; like switching columns, a filter already in effect follows it. */
+    private handlePeriodStep(direction: number): void {
+        const current = this.dateInputsComponent.getDateRange();
+        if (isNaN(current.startDate.getTime()) || isNaN(current.endDate.getTime())) return;
+        const r = DateUtils.shiftRange(current, direction, this.stepMonths);
+        this.rolling = null;
+        if (this.currentRange !== CUSTOM_PRESET) { this.currentRange = CUSTOM_PRESET; this.predefinedRangesComponent.setSelectedRange(CUSTOM_PRESET); }
+        this.setInputRange(r.startDate, r.endDate);
+        if (this.filterActive) { this.applyFilter(); return; }
+        this.updateFieldInfoLabel(r.startDate, r.endDate);
+        this.validateSelection(r);
+        this.scheduleAutoApply();
+    }
+
+    private handleComparisonSelection(mode: ComparisonMode): void {
+        this.comparisonMode = mode;
+        if (this.filterActive) { this.applyFilter(); return; }
+        const r = this.dateInputsComponent.getDateRange();
+        if (!isNaN(r.startDate.getTime()) && !isNaN(r.endDate.getTime())) this.updateFieldInfoLabel(r.startDate, r.endDate);
+        this.scheduleAutoApply();
+    }
+
+    /** The window filtered on the comparison field, or null when none is bound or no comparison is chosen. */
+    private getComparison(r: IDateRange): IDateRange | null {
+        return this.compareColumn ? DateUtils.getComparisonRange(r, this.comparisonMode, this.stepMonths) : null;
+    }
+
+    private getDefaultComparison(): ComparisonMode {
+        const mode = this.settings.period.comparisonMode as ComparisonMode;
+        return COMPARISON_MODES.indexOf(mode) >= 0 ? mode : "none";
+    }
+
+    /**
+     * Reads the comparison mode back from a persisted comparison range: the mode whose window, stepped like the
+     * arrows, is that range. When several fit (a whole year), the format pane's default breaks the tie.
+     */
+    private matchComparison(applied: IAppliedSelection): ComparisonMode {
+        const c = applied.comparison;
+        if (!c) return "none";
+        const matches = COMPARISON_MODES.filter(mode => {
+            const r = DateUtils.getComparisonRange(applied.range, mode, this.stepMonths);
+            return !!r && this.isSameRange(r, c);
+        });
+        const fallback = this.getDefaultComparison();
+        return matches.indexOf(fallback) >= 0 ? fallback : matches[0] || (fallback !== "none" ? fallback : "previousPeriod");
+    }
+
+    /** Validates against the active column and shows the result inline; returns the issues that block applying. */
+    private validateSelection(r: IDateRange): IValidationIssue[] {
+        const issues = this.dateColumn ? this.rangeValidator.validate(r, this.getRangeConstraints()) : [];
+        this.dateInputsComponent.setIssues(issues);
+        return issues.filter(i => i.severity === "error");
+    }
+
+    private getRangeConstraints(): IRangeConstraints {
+        const cols = [this.dateColumn, this.endColumn].filter(c => !!c) as IDateColumnInfo[];
+        return {
+            ...this.getDataBounds(),
+            boundsFromData: cols.some(c => !c.placeholderBounds),
+            partialBounds: cols.some(c => c.partialBounds),
+            dataDays: this.getDataDays(),
+            maxRangeDays: Math.max(0, Math.floor(this.settings.dateSettings.maxRangeDays) || 0)
+        };
+    }
+
+    /** With "apply on change" on, every edit restarts a short timer and the filter is written when it settles. */
+    private scheduleAutoApply(): void {
+        if (!this.settings.dateSettings.applyOnChange) return;
+        clearTimeout(this.autoApplyTimer);
+        this.autoApplyTimer = setTimeout(() => this.applyFilter(true), AUTO_APPLY_DELAY_MS);
+    }
+
+    private formatBoundary(date: Date): string {
+        return this.showTime ? this.l10n.formatDisplayDateTime(date, this.timeGranularity) : this.l10n.formatDisplayDate(date);
     }
 
     private updateFieldInfoLabel(startDate?: Date, endDate?: Date): void {
         if (this.dateColumn) {
-            let label = `Connected to: ${this.dateColumn.displayName}`;
-            if (startDate && endDate) label += ` | Selected: ${DateUtils.formatDate(startDate)} to ${DateUtils.formatDate(endDate)}`;
-            else if (this.dateColumn.minDate && this.dateColumn.maxDate) label += ` | Range: ${DateUtils.formatDate(this.dateColumn.minDate)} to ${DateUtils.formatDate(this.dateColumn.maxDate)}`;
-            this.fieldInfo.textContent = label;
-            this.fieldInfo.style.background = "#dff6dd"; this.fieldInfo.style.borderColor = "#107c10"; this.fieldInfo.style.color = "#107c10";
+            const label = this.settings.dateSettings.dateColumn;
+            const parts = [this.endColumn && !label ? this.l10n.getString("Banner_ConnectedOverlap", this.dateColumn.displayName, this.endColumn.displayName)
+                : this.l10n.getString("Banner_ConnectedTo", label || this.dateColumn.displayName)];
+            if (this.rolling) parts.push(this.l10n.getString("Banner_Rolling", DateUtils.describeRelative(this.rolling, this.l10n)));
+            else if (startDate && endDate) {
+                parts.push(this.l10n.getString("Banner_Selected", this.formatBoundary(startDate), this.formatBoundary(endDate)));
+                const comparison = this.getComparison({ startDate, endDate });
+                if (comparison) parts.push(this.l10n.getString("Banner_Comparison", this.formatBoundary(comparison.startDate), this.formatBoundary(comparison.endDate)));
+            }
+            else {
+                const bounds = this.getDataBounds();
+                if (bounds.minDate && bounds.maxDate) parts.push(this.l10n.getString("Banner_Range", this.l10n.formatDisplayDate(bounds.minDate), this.l10n.formatDisplayDate(bounds.maxDate)));
+            }
+            if (this.timeZoneError) parts.push(this.timeZoneError);
+            else if (this.timeZone !== TimeZoneUtils.LOCAL) parts.push(this.l10n.getString("Banner_TimeZone", TimeZoneUtils.describe(this.timeZone)));
+            this.fieldInfo.textContent = parts.join(" | ");
+            this.fieldInfo.classList.add("ok");
         } else {
-            this.fieldInfo.textContent = "Add a date field to the Fields area";
-            this.fieldInfo.style.background = "#fff4ce"; this.fieldInfo.style.borderColor = "#ffb900"; this.fieldInfo.style.color = "#8a8886";
+            this.fieldInfo.textContent = this.l10n.getString("Banner_AddField");
+            this.fieldInfo.classList.remove("ok");
         }
+        this.updatePill();
     }
 
-    private applyFilter(): void {
+    /** The pill names the selection the way a viewer picked it: a preset's label, the rolling window, or the dates. */
+    private updatePill(): void {
         const r = this.dateInputsComponent.getDateRange();
-        if (!r.startDate || !r.endDate) { this.messageService.showError("Please select both start and end dates"); return; }
-        if (!DateUtils.isValidDateRange(r.startDate, r.endDate)) { this.messageService.showError("Start date must be before end date"); return; }
-        this.filterService.applyFilter(r);
+        const preset = this.currentRange !== CUSTOM_PRESET ? this.getVisiblePresets().find(o => o.id === this.currentRange) : undefined;
+        const text = !this.dateColumn ? this.l10n.getString("Banner_AddField")
+            : this.rolling ? DateUtils.describeRelative(this.rolling, this.l10n)
+            : preset ? preset.label
+            : !isNaN(r.startDate.getTime()) && !isNaN(r.endDate.getTime()) ? this.l10n.getString("Pill_Range", this.formatBoundary(r.startDate), this.formatBoundary(r.endDate))
+            : this.titleEl.textContent || "";
+        this.pill.textContent = text;
+        this.pill.setAttribute("aria-label", this.l10n.getString("Aria_Pill", text));
     }
 
-    private clearFilter(): void { this.filterService.clearFilter(); }
+    /** `auto` is the debounced apply-on-change path, which stays quiet about invalid ranges (they are shown inline). */
+    private applyFilter(auto: boolean = false): void {
+        clearTimeout(this.autoApplyTimer);
+        if (auto && !this.dateColumn) return;
+        const r = this.dateInputsComponent.getDateRange();
+        const errors = this.validateSelection(r);
+        if (errors.length) {
+            if (!auto) { this.messageService.showError(errors[0].message); this.dateInputsComponent.focusField(errors[0].field); }
+            return;
+        }
+        const relative = this.getRollingRelative(this.currentRange);
+        if (relative) this.filterService.applyRelativeFilter(relative);
+        else this.filterService.applyFilter(r, this.getComparison(r));
+        this.lastApplied = { range: r, stepMonths: this.stepMonths };
+        if (!auto && this.container.classList.contains("open")) { this.setPanelOpen(false); this.pill.focus(); }
+    }
+
+    private clearFilter(): void {
+        clearTimeout(this.autoApplyTimer);
+        this.filterService.clearFilter();
+    }
 
     private updateDataColumnInfo(options: VisualUpdateOptions): void {
-        const dv: any = (options as any)?.dataViews?.[0];
+        const dv = (options as any)?.dataViews?.[0];
+        this.dateColumns = this.readDateColumns(dv).filter(c => c.role !== "compareDate");
+        this.compareColumn = this.readCompareColumn(dv);
+        this.filterService.setComparisonColumn(this.compareColumn);
+        this.periodNavigationComponent.update({ showComparison: !!this.compareColumn });
+        const columnOptions = this.getColumnOptions();
+        const jsonFilters = (options as any)?.jsonFilters;
+        // A persisted filter decides the active column, so a reopened report shows what is actually filtered.
+        const active = columnOptions.find(o => !!this.filterService.getAppliedSelectionFor(jsonFilters, o.column, o.endColumn))
+            || columnOptions.find(o => o.id === this.activeColumnId) || columnOptions[0];
+        this.columnSelectorComponent.update({ options: columnOptions, selected: active ? active.id : "" });
+        this.activateColumn(active);
+
+        if (this.dateColumn) {
+            this.restoreSelection(options);
+            this.validateSelection(this.dateInputsComponent.getDateRange());
+        } else {
+            this.syncKey = ""; this.filterActive = false;
+            this.dateInputsComponent.setIssues([]);
+            this.updateFieldInfoLabel();
+        }
+    }
+
+    /**
+     * The `compareDate` field is mapped as a value: grouped with the fact's dates it would cross-join with them and
+     * crowd the row window. Only its identity is needed, so the aggregate wrapping its query name is dropped.
+     */
+    private readCompareColumn(dv: any): IDateColumnInfo | null {
+        const source = (dv?.metadata?.columns || []).find((c: any) => c?.roles?.["compareDate"]);
+        if (!source) return null;
+        const queryName = (source.queryName || "").replace(/^\w+\((.+)\)$/, "$1");
+        return { displayName: source.displayName || "Date", queryName, role: "compareDate" };
+    }
+
+    /** Date fields bound to the `date`/`endDate` roles, with min/max and data days scanned from categorical or table rows. */
+    private readDateColumns(dv: any): IDateColumnInfo[] {
         const cats: any[] | undefined = dv?.categorical?.categories as any[] | undefined;
         const metaCols: any[] = dv?.metadata?.columns || [];
-
-        const pickMetaDateCol = () => metaCols.find(c =>
-            (c?.roles && (c.roles["date"] || c.roles["category"])) && (c?.type?.dateTime || c?.type?.date)
-        ) || metaCols.find(c => (c?.type?.dateTime || c?.type?.date));
+        const roleOf = (source: any): string => source?.roles?.["endDate"] ? "endDate" : source?.roles?.["compareDate"] ? "compareDate"
+            : (source?.roles?.["date"] || source?.roles?.["category"]) ? "date" : "";
+        const isDate = (source: any): boolean => !!(source?.type?.dateTime || source?.type?.date);
+        // The visual reads only the first window of rows; a segment means the host holds more than that.
+        const partialBounds = !!dv?.metadata?.segment;
+        const info = (source: any, role: string, values: any[]): IDateColumnInfo => {
+            const mm = DateUtils.findMinMaxDates(values, this.l10n.dayFirst);
+            return {
+                displayName: source.displayName || "Date", queryName: source.queryName || "", role,
+                minDate: mm.minDate || new Date(1900, 0, 1),
+                maxDate: mm.maxDate || new Date(new Date().getFullYear() + 10, 11, 31),
+                dataDays: mm.days,
+                placeholderBounds: !mm.minDate,
+                partialBounds
+            };
+        };
 
         if (cats && cats.length) {
-            const cat = cats.find(c => (c?.source?.roles && (c.source.roles["date"] || c.source.roles["category"])) ||
-                (c?.source?.type && (c.source.type.dateTime || c.source.type.date))) || cats[0];
-            this.dateColumn = { displayName: cat.source.displayName || "Date", queryName: cat.source.queryName || "" };
-            const mm = DateUtils.findMinMaxDates(cat.values || []);
-            this.dateColumn.minDate = mm.minDate || new Date(1900, 0, 1);
-            this.dateColumn.maxDate = mm.maxDate || new Date(new Date().getFullYear() + 10, 11, 31);
-        } else {
-            const metaDate = pickMetaDateCol();
-            if (metaDate) {
-                this.dateColumn = { displayName: metaDate.displayName || "Date", queryName: metaDate.queryName || "" };
-                // try to compute min/max from table rows
-                let minDate: Date | null = null, maxDate: Date | null = null;
-                const t = dv?.table;
-                if (t?.rows && Array.isArray(t.rows) && metaCols.length) {
-                    const idx = metaCols.indexOf(metaDate);
-                    if (idx >= 0) {
-                        const vals = t.rows.map((r: any[]) => r[idx]);
-                        const mm = DateUtils.findMinMaxDates(vals);
-                        minDate = mm.minDate; maxDate = mm.maxDate;
-                    }
-                }
-                this.dateColumn.minDate = minDate || new Date(1900, 0, 1);
-                this.dateColumn.maxDate = maxDate || new Date(new Date().getFullYear() + 10, 11, 31);
-            } else {
-                this.dateColumn = null;
-            }
+            const bound = cats.filter(c => roleOf(c?.source));
+            if (bound.length) return bound.map(c => info(c.source, roleOf(c.source), c.values || []));
+            const cat = cats.find(c => isDate(c?.source)) || cats[0];
+            return [info(cat.source, "date", cat.values || [])];
         }
+        let cols = metaCols.filter(c => roleOf(c) && isDate(c));
+        if (!cols.length) cols = metaCols.filter(isDate).slice(0, 1);
+        const rows: any[][] = Array.isArray(dv?.table?.rows) ? dv.table.rows : [];
+        return cols.map(c => info(c, roleOf(c) || "date", rows.map(r => r[metaCols.indexOf(c)])));
+    }
 
-        if (this.dateColumn) {
-            this.dateInputsComponent.update({ minDate: this.dateColumn.minDate, maxDate: this.dateColumn.maxDate });
-            const initial = DateUtils.getDateRange(PredefinedRange.LATEST_7_DAYS, this.dateColumn.maxDate);
-            this.dateInputsComponent.setDateRange(initial.startDate, initial.endDate);
-            this.filterService.setDateColumn(this.dateColumn);
-            this.updateFieldInfoLabel();
+    /** One option per field, led by the overlap pair (first `date` field to the `endDate` field) when an end is bound. */
+    private getColumnOptions(): IDateColumnOption[] {
+        const options: IDateColumnOption[] = this.dateColumns.map(c => ({ id: `column|${c.queryName}`, label: c.displayName, column: c }));
+        const start = this.dateColumns.find(c => c.role !== "endDate"), end = this.dateColumns.find(c => c.role === "endDate");
+        if (start && end) options.unshift({ id: `overlap|${start.queryName}|${end.queryName}`, label: this.l10n.getString("Column_Overlap", start.displayName, end.displayName), column: start, endColumn: end });
+        return options;
+    }
+
+    private activateColumn(option?: IDateColumnOption): void {
+        this.dateColumn = option ? option.column : null;
+        this.endColumn = option?.endColumn || null;
+        if (option) this.activeColumnId = option.id;
+        this.filterService.setDateColumn(this.dateColumn, this.endColumn);
+        if (!this.dateColumn) return;
+        const bounds = this.getDataBounds();
+        this.dateInputsComponent.update(bounds);
+        this.calendarComponent.update({ ...bounds, dataDays: this.getDataDays() });
+    }
+
+    /**
+     * Min/max of the active field; an overlap pair spans both fields. Placeholder bounds are ignored while the
+     * other field has real ones, so an all-blank end column doesn't stretch the range ten years ahead.
+     */
+    private getDataBounds(): { minDate?: Date; maxDate?: Date } {
+        const bound = [this.dateColumn, this.endColumn].filter(c => !!c) as IDateColumnInfo[];
+        const cols = bound.some(c => !c.placeholderBounds) ? bound.filter(c => !c.placeholderBounds) : bound;
+        if (!cols.length) return {};
+        return {
+            minDate: new Date(Math.min(...cols.map(c => c.minDate!.getTime()))),
+            maxDate: new Date(Math.max(...cols.map(c => c.maxDate!.getTime())))
+        };
+    }
+
+    private getDataDays(): { [day: string]: boolean } | undefined {
+        if (!this.dateColumn) return undefined;
+        return this.endColumn ? { ...this.dateColumn.dataDays, ...this.endColumn.dataDays } : this.dateColumn.dataDays;
+    }
+
+    /** Retargets the selection; a filter already in effect moves to the newly chosen field straight away. */
+    private handleColumnSelection(id: string): void {
+        const option = this.getColumnOptions().find(o => o.id === id);
+        if (!option || option.id === this.activeColumnId) return;
+        this.activateColumn(option);
+        if (this.filterActive) { this.applyFilter(); return; }
+        const r = this.dateInputsComponent.getDateRange();
+        this.updateFieldInfoLabel(r.startDate, r.endDate);
+        this.validateSelection(r);
+        this.scheduleAutoApply();
+    }
+
+    /**
+     * Shows the filter actually in effect; defaults are only used when nothing is persisted. Inputs are
+     * rewritten only when the filter/defaults change, so resizes don't discard an unapplied edit.
+     */
+    private restoreSelection(options: VisualUpdateOptions): void {
+        const applied = this.filterService.getAppliedSelection((options as any)?.jsonFilters);
+        const ds = this.settings.dateSettings;
+        const rel = applied?.relative;
+        this.filterActive = !!applied;
+        const key = rel ? `relative|${this.activeColumnId}|${rel.operator}|${rel.timeUnitsCount}|${rel.timeUnitType}|${rel.includeToday}`
+            : applied ? `filter|${this.activeColumnId}|${applied.range.startDate.getTime()}|${applied.range.endDate.getTime()}|${this.timeZone}|${applied.comparison ? applied.comparison.startDate.getTime() : ""}`
+            : `defaults|${this.dateColumns.map(c => c.queryName).join(",")}|${ds.startDate}|${ds.endDate}|${this.settings.presets.presetList}|${this.compareColumn ? this.compareColumn.queryName : ""}|${this.settings.period.comparisonMode}`;
+        if (key === this.syncKey) return;
+        this.syncKey = key;
+
+        this.rolling = rel || null;
+        if (applied) {
+            const preset = rel ? this.matchRelativePreset(rel) : this.matchPreset(applied.range);
+            // A stepped calendar preset reads back as a custom range; it keeps stepping by months if it is our own.
+            const echoed = this.lastApplied && this.isSameRange(this.lastApplied.range, applied.range) ? this.lastApplied : null;
+            this.currentRange = preset; this.stepMonths = DatePresetRegistry.get(preset)?.stepMonths ?? echoed?.stepMonths;
+            this.comparisonMode = this.compareColumn ? this.matchComparison(applied) : this.getDefaultComparison();
+            this.periodNavigationComponent.update({ mode: this.comparisonMode });
+            this.predefinedRangesComponent.setSelectedRange(preset);
+            this.setInputRange(applied.range.startDate, applied.range.endDate);
+            this.updateFieldInfoLabel(applied.range.startDate, applied.range.endDate);
         } else {
-            this.filterService.setDateColumn(null);
+            const initial = this.getInitialRange();
+            this.currentRange = initial.preset; this.stepMonths = DatePresetRegistry.get(initial.preset)?.stepMonths;
+            this.comparisonMode = this.getDefaultComparison();
+            this.periodNavigationComponent.update({ mode: this.comparisonMode });
+            this.predefinedRangesComponent.setSelectedRange(initial.preset);
+            this.setInputRange(initial.range.startDate, initial.range.endDate);
             this.updateFieldInfoLabel();
         }
     }
+
+    private matchPreset(range: IDateRange): string {
+        const ctx = this.getPresetContext();
+        for (const o of this.getVisiblePresets()) {
+            const r = DatePresetRegistry.getRange(o.id, ctx);
+            if (r && this.isSameRange(r, range)) return o.id;
+        }
+        return CUSTOM_PRESET;
+    }
+
+    private isSameRange(a: IDateRange, b: IDateRange): boolean {
+        return this.formatBoundary(a.startDate) === this.formatBoundary(b.startDate) && this.formatBoundary(a.endDate) === this.formatBoundary(b.endDate);
+    }
+
+    private matchRelativePreset(rel: IRelativeRange): string {
+        const match = this.getVisiblePresets().find(o => {
+            const r = DatePresetRegistry.get(o.id)?.relative;
+            return !!r && r.operator === rel.operator && r.timeUnitsCount === rel.timeUnitsCount && r.timeUnitType === rel.timeUnitType && r.includeToday === rel.includeToday;
+        });
+        return match ? match.id : CUSTOM_PRESET;
+    }
 }
 
 export default DateTimePickerVisual;
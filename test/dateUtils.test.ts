@@ -0,0 +1,103 @@
+import { DateUtils } from "../src/visual";
+
+// Viewer zone is pinned to America/New_York by test/globalSetup.js.
+describe("DateUtils.parseDate", () => {
+    it("reads ISO dates", () => {
+        expect(DateUtils.parseDate("2024-03-05")).toEqual(new Date(2024, 2, 5));
+    });
+
+    it("reads ISO date-times and drops the time of day", () => {
+        expect(DateUtils.parseDate("2024-03-05T14:30")).toEqual(new Date(2024, 2, 5));
+        expect(DateUtils.parseDate("2024-03-05 14:30:15")).toEqual(new Date(2024, 2, 5));
+        expect(DateUtils.parseDate("2024-03-05T14:30:15.250")).toEqual(new Date(2024, 2, 5));
+    });
+
+    it("reads slash dates month-first unless the first part can only be a day", () => {
+        expect(DateUtils.parseDate("3/5/2024")).toEqual(new Date(2024, 2, 5));
+        expect(DateUtils.parseDate("03/05/2024")).toEqual(new Date(2024, 2, 5));
+        expect(DateUtils.parseDate("25/03/2024")).toEqual(new Date(2024, 2, 25));
+        expect(DateUtils.parseDate("3/5/2024 14:30")).toEqual(new Date(2024, 2, 5));
+    });
+
+    it("reads ambiguous slash dates day-first when asked", () => {
+        expect(DateUtils.parseDate("03/05/2024", true)).toEqual(new Date(2024, 4, 3));
+        expect(DateUtils.parseDate("03/25/2024", true)).toEqual(new Date(2024, 2, 25));
+    });
+
+    it("copies Date values to the start of their day", () => {
+        const source = new Date(2024, 2, 5, 18, 45);
+        const parsed = DateUtils.parseDate(source);
+        expect(parsed).toEqual(new Date(2024, 2, 5));
+        expect(source.getHours()).toBe(18);
+    });
+
+    it("falls back to the engine's parser for other text", () => {
+        expect(DateUtils.parseDate("March 5, 2024")).toEqual(new Date(2024, 2, 5));
+        expect(DateUtils.parseDate("Tue Mar 05 2024 09:00:00")).toEqual(new Date(2024, 2, 5));
+    });
+
+    it("returns an invalid date for empty or unreadable input", () => {
+        [undefined, null, "", "not a date", "2024/13/45x"].forEach(input => expect(isNaN(DateUtils.parseDate(input).getTime())).toBe(true));
+    });
+});
+
+describe("DateUtils.parseDateTime", () => {
+    it("keeps the time of day", () => {
+        expect(DateUtils.parseDateTime("2024-03-05T14:30:15.250")).toEqual(new Date(2024, 2, 5, 14, 30, 15, 250));
+        expect(DateUtils.parseDateTime("2024-03-05 06:00")).toEqual(new Date(2024, 2, 5, 6, 0));
+        expect(DateUtils.parseDateTime("25/03/2024 18:05:09")).toEqual(new Date(2024, 2, 25, 18, 5, 9));
+    });
+});
+
+describe("DateUtils.findMinMaxDates", () => {
+    it("skips blanks and collects the days that have data", () => {
+        const result = DateUtils.findMinMaxDates([null, "2024-01-10", new Date(2024, 0, 3, 12), "", "2024-01-20T08:00", "n/a"]);
+        expect(result.minDate).toEqual(new Date(2024, 0, 3, 12));
+        expect(result.maxDate).toEqual(new Date(2024, 0, 20, 8));
+        expect(Object.keys(result.days).sort()).toEqual(["2024-01-03", "2024-01-10", "2024-01-20"]);
+    });
+
+    it("returns no bounds for empty input", () => {
+        expect(DateUtils.findMinMaxDates([])).toEqual({ minDate: null, maxDate: null, days: {} });
+    });
+});
+
+describe("DateUtils.shiftRange", () => {
+    const days = (from: [number, number, number], to: [number, number, number]) => ({
+        startDate: new Date(from[0], from[1] - 1, from[2]), endDate: new Date(to[0], to[1] - 1, to[2], 23, 59, 59, 999)
+    });
+
+    it("steps whole-day ranges by their own length, across DST changes", () => {
+        expect(DateUtils.shiftRange(days([2024, 1, 13], [2024, 1, 20]), -1)).toEqual(days([2024, 1, 5], [2024, 1, 12]));
+        expect(DateUtils.shiftRange(days([2024, 3, 4], [2024, 3, 10]), 1)).toEqual(days([2024, 3, 11], [2024, 3, 17]));
+    });
+
+    it("steps timed ranges by their exact length", () => {
+        const shift = { startDate: new Date(2024, 0, 5, 6, 0), endDate: new Date(2024, 0, 5, 17, 59, 59, 999) };
+        expect(DateUtils.shiftRange(shift, 1)).toEqual({ startDate: new Date(2024, 0, 5, 18, 0), endDate: new Date(2024, 0, 6, 5, 59, 59, 999) });
+    });
+
+    it("steps by calendar months, keeping month ends on the month end", () => {
+        expect(DateUtils.shiftRange(days([2024, 3, 1], [2024, 3, 31]), -1, 1)).toEqual(days([2024, 2, 1], [2024, 2, 29]));
+        expect(DateUtils.shiftRange(days([2024, 1, 1], [2024, 1, 20]), -1, 1)).toEqual(days([2023, 12, 1], [2023, 12, 20]));
+        expect(DateUtils.shiftRange(days([2024, 1, 1], [2024, 3, 31]), 1, 3)).toEqual(days([2024, 4, 1], [2024, 6, 30]));
+        expect(DateUtils.shiftRange(days([2024, 2, 29], [2024, 2, 29]), -1, 12)).toEqual(days([2023, 2, 28], [2023, 2, 28]));
+    });
+
+    it("treats a range of whole months as calendar months", () => {
+        expect(DateUtils.countWholeMonths(days([2023, 11, 1], [2023, 11, 30]))).toBe(1);
+        expect(DateUtils.countWholeMonths(days([2023, 10, 1], [2023, 12, 31]))).toBe(3);
+        expect(DateUtils.countWholeMonths(days([2023, 11, 2], [2023, 11, 30]))).toBe(0);
+        expect(DateUtils.shiftRange(days([2023, 11, 1], [2023, 11, 30]), -1)).toEqual(days([2023, 10, 1], [2023, 10, 31]));
+    });
+});
+
+describe("DateUtils.getComparisonRange", () => {
+    const range = { startDate: new Date(2024, 0, 13), endDate: new Date(2024, 0, 20, 23, 59, 59, 999) };
+
+    it("returns the previous period or the same dates last year", () => {
+        expect(DateUtils.getComparisonRange(range, "previousPeriod")).toEqual({ startDate: new Date(2024, 0, 5), endDate: new Date(2024, 0, 12, 23, 59, 59, 999) });
+        expect(DateUtils.getComparisonRange(range, "samePeriodLastYear")).toEqual({ startDate: new Date(2023, 0, 13), endDate: new Date(2023, 0, 20, 23, 59, 59, 999) });
+        expect(DateUtils.getComparisonRange(range, "none")).toBeNull();
+    });
+});
@@ -0,0 +1,28 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface IRecordedFilterCall {
+    filter: any;
+    objectName: string;
+    propertyName: string;
+    action: number;
+}
+
+export function loadResources(locale: string): { [key: string]: string } {
+    const file = path.join(__dirname, "..", "stringResources", locale, "resources.resjson");
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+}
+
+/** Stand-in for `IVisualHost`: strings come from stringResources/<locale> and every `applyJsonFilter` call is recorded. */
+export function createFakeHost(locale: string = "en-US") {
+    const resources = loadResources(locale);
+    const filterCalls: IRecordedFilterCall[] = [];
+    return {
+        locale,
+        filterCalls,
+        createLocalizationManager: () => ({ getDisplayName: (key: string) => resources[key] || key }),
+        applyJsonFilter: (filter: any, objectName: string, propertyName: string, action: number) => {
+            filterCalls.push({ filter: JSON.parse(JSON.stringify(filter)), objectName, propertyName, action });
+        }
+    };
+}
@@ -0,0 +1,123 @@
+import { FilterService, LocalizationService } from "../src/visual";
+import { createFakeHost } from "./fakeHost";
+
+// Viewer zone is pinned to America/New_York by test/globalSetup.js.
+const orderDate = { displayName: "OrderDate", queryName: "Sales.OrderDate", role: "date" };
+const january = { startDate: new Date(2024, 0, 1), endDate: new Date(2024, 0, 31, 23, 59, 59, 999) };
+
+const setup = () => {
+    const host = createFakeHost();
+    const messages = { showSuccess: jest.fn(), showError: jest.fn() };
+    const service = new FilterService(host, messages, new LocalizationService(host));
+    return { host, messages, service };
+};
+
+describe("FilterService", () => {
+    it("resolves filter targets from Table.Column, Table[Column] and bare query names", () => {
+        const { service } = setup();
+        expect(service["getTargetFromQueryName"]("Sales.OrderDate", "Order Date")).toEqual({ table: "Sales", column: "OrderDate" });
+        expect(service["getTargetFromQueryName"]("Sales[OrderDate]", "Order Date")).toEqual({ table: "Sales", column: "OrderDate" });
+        expect(service["getTargetFromQueryName"]("OrderDate", "Order Date")).toEqual({ table: "Table", column: "Order Date" });
+        expect(service["getTargetFromQueryName"]("OrderDate", "")).toEqual({ table: "Table", column: "OrderDate" });
+        expect(service["getTargetFromQueryName"]("", "")).toEqual({ table: "Table", column: "Date" });
+    });
+
+    it("builds an inclusive AdvancedFilter with local wall-clock boundaries", () => {
+        const { service } = setup();
+        service.setDateColumn(orderDate);
+        expect(JSON.parse(JSON.stringify(service["createAdvancedFilter"](january)))).toEqual({
+            $schema: "http://powerbi.com/product/schema#advanced",
+            target: { table: "Sales", column: "OrderDate" },
+            filterType: 0,
+            logicalOperator: "And",
+            conditions: [
+                { operator: "GreaterThanOrEqual", value: "2024-01-01T00:00:00.000" },
+                { operator: "LessThanOrEqual", value: "2024-01-31T23:59:59.999" }
+            ]
+        });
+    });
+
+    it("writes boundaries in the source time zone", () => {
+        const { service } = setup();
+        service.setDateColumn(orderDate);
+        service.setTimeZone("UTC");
+        expect(service["createAdvancedFilter"](january)!.conditions.map(c => c.value)).toEqual(["2024-01-01T05:00:00.000", "2024-02-01T04:59:59.999"]);
+    });
+
+    it("applies the filter to the general.filter property with merge", () => {
+        const { host, messages, service } = setup();
+        service.setDateColumn(orderDate);
+        service.applyFilter(january);
+        expect(host.filterCalls).toHaveLength(1);
+        expect(host.filterCalls[0]).toMatchObject({ objectName: "general", propertyName: "filter", action: 0 });
+        expect(host.filterCalls[0].filter.target).toEqual({ table: "Sales", column: "OrderDate" });
+        expect(messages.showSuccess).toHaveBeenCalledWith("Filter applied successfully!");
+    });
+
+    it("refuses to filter without a date column", () => {
+        const { host, messages, service } = setup();
+        service.applyFilter(january);
+        expect(host.filterCalls).toHaveLength(0);
+        expect(messages.showError).toHaveBeenCalledWith("Unable to apply filter - add a date field");
+    });
+
+    it("clears by removing the filter", () => {
+        const { host, messages, service } = setup();
+        service.setDateColumn(orderDate);
+        service.clearFilter();
+        expect(host.filterCalls).toEqual([{ filter: null, objectName: "general", propertyName: "filter", action: 1 }]);
+        expect(messages.showSuccess).toHaveBeenCalledWith("All filters cleared - showing full data");
+    });
+
+    it("builds relative date and time filters", () => {
+        const { host, service } = setup();
+        service.setDateColumn(orderDate);
+        service.applyRelativeFilter({ operator: 0, timeUnitsCount: 30, timeUnitType: 0, includeToday: true });
+        service.applyRelativeFilter({ operator: 0, timeUnitsCount: 4, timeUnitType: 8, includeToday: true });
+        expect(host.filterCalls[0].filter).toMatchObject({ target: { table: "Sales", column: "OrderDate" }, operator: 0, timeUnitsCount: 30, timeUnitType: 0, includeToday: true });
+        expect(host.filterCalls[1].filter).toMatchObject({ operator: 0, timeUnitsCount: 4, timeUnitType: 8 });
+        expect(host.filterCalls[1].filter.includeToday).toBeUndefined();
+    });
+
+    it("filters a from/to pair for overlap, treating a blank end as open", () => {
+        const { host, service } = setup();
+        service.setDateColumn({ displayName: "OpenedDate", queryName: "Cases.OpenedDate", role: "date" }, { displayName: "ClosedDate", queryName: "Cases.ClosedDate", role: "endDate" });
+        service.applyFilter(january);
+        const [opened, closed] = host.filterCalls[0].filter;
+        expect(opened).toMatchObject({ target: { table: "Cases", column: "OpenedDate" }, logicalOperator: "And", conditions: [{ operator: "LessThanOrEqual", value: "2024-01-31T23:59:59.999" }] });
+        expect(closed).toMatchObject({ target: { table: "Cases", column: "ClosedDate" }, logicalOperator: "Or", conditions: [{ operator: "GreaterThanOrEqual", value: "2024-01-01T00:00:00.000" }, { operator: "IsBlank" }] });
+        expect(service.getAppliedSelection(host.filterCalls[0].filter)).toEqual({ range: january });
+    });
+
+    it("filters the comparison column to a second window in the same call", () => {
+        const { host, messages, service } = setup();
+        const december = { startDate: new Date(2023, 11, 1), endDate: new Date(2023, 11, 31, 23, 59, 59, 999) };
+        service.setDateColumn(orderDate);
+        service.setComparisonColumn({ displayName: "Date", queryName: "CompareCalendar.Date", role: "compareDate" });
+        service.applyFilter(january, december);
+        const [main, compare] = host.filterCalls[0].filter;
+        expect(main.target).toEqual({ table: "Sales", column: "OrderDate" });
+        expect(compare).toMatchObject({ target: { table: "CompareCalendar", column: "Date" }, conditions: [{ value: "2023-12-01T00:00:00.000" }, { value: "2023-12-31T23:59:59.999" }] });
+        expect(messages.showSuccess).toHaveBeenCalledWith("Filter applied, compared with 12/01/2023 to 12/31/2023");
+        expect(service.getAppliedSelection(host.filterCalls[0].filter)).toEqual({ range: january, comparison: december });
+
+        service.applyFilter(january);
+        expect(host.filterCalls[1].filter.target).toEqual({ table: "Sales", column: "OrderDate" });
+        expect(service.getAppliedSelection([host.filterCalls[1].filter])).toEqual({ range: january });
+    });
+
+    it("decodes the persisted filter on the current column only", () => {
+        const { host, service } = setup();
+        service.setDateColumn(orderDate);
+        service.applyFilter(january);
+        const persisted = [host.filterCalls[0].filter];
+        expect(service.getAppliedSelection(persisted)).toEqual({ range: january });
+        const shipDate = { displayName: "ShipDate", queryName: "Sales.ShipDate", role: "date" };
+        expect(service.getAppliedSelectionFor(persisted, shipDate)).toBeNull();
+        // Looking up another column leaves the service's own target alone.
+        expect(service.getAppliedSelection(persisted)).toEqual({ range: january });
+        service.setDateColumn(shipDate);
+        expect(service.getAppliedSelection(persisted)).toBeNull();
+        expect(service.getAppliedSelectionFor(persisted, orderDate)).toEqual({ range: january });
+    });
+});
@@ -0,0 +1,2 @@
+// Pin the viewer time zone so local-time and DST expectations are deterministic on every machine.
+module.exports = () => { process.env.TZ = "America/New_York"; };
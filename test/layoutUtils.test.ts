@@ -0,0 +1,24 @@
+import { LayoutUtils } from "../src/visual";
+
+describe("LayoutUtils.resolve", () => {
+    it("honours an explicit layout whatever the size", () => {
+        expect(LayoutUtils.resolve("compact", { width: 800, height: 600 })).toBe("compact");
+        expect(LayoutUtils.resolve("horizontal", { width: 150, height: 40 })).toBe("horizontal");
+        expect(LayoutUtils.resolve("vertical", { width: 150, height: 40 })).toBe("vertical");
+    });
+
+    it("fits the layout to the viewport on auto", () => {
+        expect(LayoutUtils.resolve("auto", { width: 300, height: 400 })).toBe("vertical");
+        expect(LayoutUtils.resolve("auto", { width: 200, height: 320 })).toBe("vertical");
+        // Wide but short: a header strip.
+        expect(LayoutUtils.resolve("auto", { width: 1000, height: 60 })).toBe("horizontal");
+        expect(LayoutUtils.resolve("auto", { width: 1000, height: 40 })).toBe("compact");
+        expect(LayoutUtils.resolve("auto", { width: 300, height: 200 })).toBe("compact");
+        expect(LayoutUtils.resolve("auto", { width: 150, height: 600 })).toBe("compact");
+    });
+
+    it("starts vertical until a viewport is known", () => {
+        expect(LayoutUtils.resolve("auto")).toBe("vertical");
+        expect(LayoutUtils.resolve("unknown")).toBe("vertical");
+    });
+});
@@ -0,0 +1,43 @@
+import { DateUtils, LocalizationService } from "../src/visual";
+import { createFakeHost, loadResources } from "./fakeHost";
+
+describe("LocalizationService", () => {
+    it("ships the same keys for every locale", () => {
+        const en = Object.keys(loadResources("en-US")).sort();
+        expect(Object.keys(loadResources("es-ES")).sort()).toEqual(en);
+    });
+
+    it("reads strings from the host and fills placeholders", () => {
+        const l10n = new LocalizationService(createFakeHost("es-ES"));
+        expect(l10n.getString("Apply_Button")).toBe("Aplicar filtro");
+        expect(l10n.getString("Banner_Selected", "a", "b")).toBe("Seleccionado: a a b");
+    });
+
+    it("falls back to English without a localization manager or unknown locale", () => {
+        const l10n = new LocalizationService({ locale: "not a locale" });
+        expect(l10n.locale).toBe("en-US");
+        expect(l10n.getString("Clear_Button")).toBe("Show All Data");
+        expect(l10n.getString("No_Such_Key")).toBe("No_Such_Key");
+    });
+
+    it("derives day order and week start from the locale", () => {
+        const en = new LocalizationService(createFakeHost("en-US")), es = new LocalizationService(createFakeHost("es-ES"));
+        expect(en.dayFirst).toBe(false);
+        expect(es.dayFirst).toBe(true);
+        expect(en.defaultWeekStartDay).toBe(0);
+        expect(es.defaultWeekStartDay).toBe(1);
+    });
+
+    it("formats display dates and calendar names for the locale", () => {
+        const es = new LocalizationService(createFakeHost("es-ES"));
+        expect(es.formatDisplayDate(new Date(2024, 4, 3))).toBe("03/05/2024");
+        expect(es.monthName(0)).toBe("Enero");
+        expect(new LocalizationService(createFakeHost("en-US")).formatDisplayDate(new Date(2024, 4, 3))).toBe("05/03/2024");
+    });
+
+    it("describes rolling ranges in the report language", () => {
+        const es = new LocalizationService(createFakeHost("es-ES"));
+        expect(DateUtils.describeRelative({ operator: 0, timeUnitsCount: 30, timeUnitType: 0, includeToday: true }, es)).toBe("últimos 30 días");
+        expect(DateUtils.describeRelative({ operator: 1, timeUnitsCount: 1, timeUnitType: 3, includeToday: true }, es)).toBe("este mes");
+    });
+});
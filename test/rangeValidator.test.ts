@@ -0,0 +1,65 @@
+import { LocalizationService, RangeValidator } from "../src/visual";
+import { createFakeHost } from "./fakeHost";
+
+// Viewer zone is pinned to America/New_York by test/globalSetup.js.
+const validator = new RangeValidator(new LocalizationService(createFakeHost()));
+const data = {
+    minDate: new Date(2024, 0, 3), maxDate: new Date(2024, 0, 20, 17, 30), boundsFromData: true,
+    dataDays: { "2024-01-03": true, "2024-01-10": true, "2024-01-20": true }, maxRangeDays: 0
+};
+const days = (from: [number, number, number], to: [number, number, number]) => ({
+    startDate: new Date(from[0], from[1] - 1, from[2]), endDate: new Date(to[0], to[1] - 1, to[2], 23, 59, 59, 999)
+});
+
+describe("RangeValidator", () => {
+    it("accepts a range inside the data", () => {
+        expect(validator.validate(days([2024, 1, 8], [2024, 1, 12]), data)).toEqual([]);
+    });
+
+    it("flags unreadable dates on their own field", () => {
+        expect(validator.validate({ startDate: new Date(NaN), endDate: new Date(NaN) }, data)).toEqual([
+            { field: "start", severity: "error", message: "Enter a valid start date" },
+            { field: "end", severity: "error", message: "Enter a valid end date" }
+        ]);
+    });
+
+    it("flags a start after the end", () => {
+        expect(validator.validate({ startDate: new Date(2024, 0, 12), endDate: new Date(2024, 0, 8) }, data))
+            .toEqual([{ field: "end", severity: "error", message: "Start date must be before end date" }]);
+    });
+
+    it("limits the span to maxRangeDays, counting calendar days", () => {
+        const limited = { ...data, maxRangeDays: 7 };
+        expect(validator.validate(days([2024, 1, 4], [2024, 1, 10]), limited)).toEqual([]);
+        expect(validator.validate(days([2024, 1, 3], [2024, 1, 10]), limited))
+            .toEqual([{ field: "range", severity: "error", message: "The range covers 8 days; the limit is 7 days" }]);
+        // The spring-forward week is 167 hours long but still seven days.
+        expect(RangeValidator.countDays(days([2024, 3, 10], [2024, 3, 16]))).toBe(7);
+        expect(RangeValidator.countDays({ startDate: new Date(2024, 0, 1, 22), endDate: new Date(2024, 0, 2, 2) })).toBe(2);
+    });
+
+    it("rejects a range entirely outside the data", () => {
+        const message = "No data in this range - the data covers 01/03/2024 to 01/20/2024";
+        expect(validator.validate(days([2023, 12, 1], [2024, 1, 2]), data)).toEqual([{ field: "range", severity: "error", message }]);
+        expect(validator.validate(days([2024, 1, 21], [2024, 1, 31]), data)).toEqual([{ field: "range", severity: "error", message }]);
+        // Touching the last day of data is enough, whatever its time of day.
+        expect(validator.validate(days([2024, 1, 20], [2024, 1, 31]), data)).toEqual([]);
+    });
+
+    it("only warns about a range outside bounds read from part of the rows", () => {
+        const partial = { ...data, partialBounds: true };
+        expect(validator.validate(days([2024, 1, 21], [2024, 1, 31]), partial))
+            .toEqual([{ field: "range", severity: "warning", message: "No loaded rows in this range - the rows loaded so far cover 01/03/2024 to 01/20/2024" }]);
+    });
+
+    it("warns when no scanned row falls in the range", () => {
+        expect(validator.validate(days([2024, 1, 11], [2024, 1, 19]), data))
+            .toEqual([{ field: "range", severity: "warning", message: "No rows fall on any day in this range" }]);
+    });
+
+    it("warns instead of checking bounds when they are placeholders", () => {
+        const unknown = { minDate: new Date(1900, 0, 1), maxDate: new Date(2036, 11, 31), boundsFromData: false, dataDays: {}, maxRangeDays: 0 };
+        expect(validator.validate(days([1850, 1, 1], [1850, 1, 2]), unknown))
+            .toEqual([{ field: "range", severity: "warning", message: "The data's date range is unknown, so this range can't be checked against it" }]);
+    });
+});
@@ -0,0 +1,67 @@
+import { TimeZoneUtils } from "../src/visual";
+
+// Viewer zone is pinned to America/New_York by test/globalSetup.js.
+describe("TimeZoneUtils", () => {
+    it("accepts local, UTC, fixed offsets and IANA names", () => {
+        expect(TimeZoneUtils.isValidZone("local")).toBe(true);
+        expect(TimeZoneUtils.isValidZone("UTC")).toBe(true);
+        expect(TimeZoneUtils.isValidZone("+05:30")).toBe(true);
+        expect(TimeZoneUtils.isValidZone("Europe/Madrid")).toBe(true);
+        expect(TimeZoneUtils.isValidZone("Mars/Olympus")).toBe(false);
+        expect(TimeZoneUtils.isValidZone("+15:00")).toBe(false);
+    });
+
+    it("parses fixed offsets", () => {
+        expect(TimeZoneUtils.parseFixedOffset("+05:30")).toBe(330);
+        expect(TimeZoneUtils.parseFixedOffset("-0800")).toBe(-480);
+        expect(TimeZoneUtils.parseFixedOffset("UTC+2")).toBe(120);
+        expect(TimeZoneUtils.parseFixedOffset("America/New_York")).toBeNull();
+    });
+
+    it("writes viewer-local boundaries unchanged in local mode", () => {
+        expect(TimeZoneUtils.formatInZone(new Date(2024, 2, 10, 0, 0, 0, 0), "local")).toBe("2024-03-10T00:00:00.000");
+        expect(TimeZoneUtils.formatInZone(new Date(2024, 2, 10, 23, 59, 59, 999), "local")).toBe("2024-03-10T23:59:59.999");
+    });
+
+    it("converts viewer-local boundaries to UTC across the spring-forward change", () => {
+        // EST (UTC-5) before 2024-03-10 02:00, EDT (UTC-4) after.
+        expect(TimeZoneUtils.formatInZone(new Date(2024, 2, 10, 0, 0, 0, 0), "UTC")).toBe("2024-03-10T05:00:00.000");
+        expect(TimeZoneUtils.formatInZone(new Date(2024, 2, 10, 23, 59, 59, 999), "UTC")).toBe("2024-03-11T03:59:59.999");
+    });
+
+    it("converts viewer-local boundaries to UTC across the fall-back change", () => {
+        expect(TimeZoneUtils.formatInZone(new Date(2024, 10, 3, 0, 0, 0, 0), "UTC")).toBe("2024-11-03T04:00:00.000");
+        expect(TimeZoneUtils.formatInZone(new Date(2024, 10, 3, 23, 59, 59, 999), "UTC")).toBe("2024-11-04T04:59:59.999");
+    });
+
+    it("uses the IANA zone's own DST rules", () => {
+        // Europe/Madrid switches on 2024-03-31 (CET -> CEST), three weeks after New York.
+        const instant = new Date(Date.UTC(2024, 2, 30, 12, 0, 0));
+        expect(TimeZoneUtils.getOffsetMinutes(instant, "Europe/Madrid")).toBe(60);
+        expect(TimeZoneUtils.getOffsetMinutes(new Date(Date.UTC(2024, 2, 31, 12, 0, 0)), "Europe/Madrid")).toBe(120);
+        expect(TimeZoneUtils.formatInZone(instant, "Europe/Madrid")).toBe("2024-03-30T13:00:00.000");
+    });
+
+    it("resolves wall-clock times skipped by spring-forward to the following valid instant", () => {
+        const t = TimeZoneUtils.fromZoneWallTime(2024, 2, 10, 2, 30, 0, 0, "America/New_York");
+        expect(t.toISOString()).toBe("2024-03-10T07:30:00.000Z");
+    });
+
+    it("resolves repeated fall-back wall-clock times to the first occurrence", () => {
+        const t = TimeZoneUtils.fromZoneWallTime(2024, 10, 3, 1, 30, 0, 0, "America/New_York");
+        expect(t.toISOString()).toBe("2024-11-03T05:30:00.000Z");
+    });
+
+    it("round-trips a boundary through its source-zone string", () => {
+        const start = new Date(2024, 2, 10, 0, 0, 0, 0);
+        ["UTC", "+05:30", "Europe/Madrid", "Australia/Sydney"].forEach(zone => {
+            expect(TimeZoneUtils.parseInZone(TimeZoneUtils.formatInZone(start, zone), zone).getTime()).toBe(start.getTime());
+        });
+    });
+
+    it("describes the zone shown in the banner", () => {
+        expect(TimeZoneUtils.describe("UTC")).toBe("UTC+00:00");
+        expect(TimeZoneUtils.describe("-03:00")).toBe("UTC-03:00");
+        expect(TimeZoneUtils.describe("Europe/Madrid", new Date(Date.UTC(2024, 0, 15)))).toBe("Europe/Madrid (UTC+01:00)");
+    });
+});
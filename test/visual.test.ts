@@ -0,0 +1,559 @@
+/**
+ * @jest-environment jsdom
+ */
+import { DateTimePickerVisual } from "../src/visual";
+import { createFakeHost } from "./fakeHost";
+
+// Viewer zone is pinned to America/New_York by test/globalSetup.js.
+const orderDateSource = { displayName: "OrderDate", queryName: "Sales.OrderDate", roles: { date: true }, type: { dateTime: true } };
+const orderDates = ["2024-01-03", "2024-01-10", null, "2024-01-20"];
+
+const categoricalView = (objects?: any) => ({
+    metadata: { columns: [orderDateSource], objects },
+    categorical: { categories: [{ source: orderDateSource, values: orderDates }] }
+});
+const tableView = () => ({
+    metadata: { columns: [{ displayName: "Region", queryName: "Sales.Region", type: { text: true } }, orderDateSource] },
+    table: { rows: orderDates.map((d, i) => [i % 2 ? "East" : "West", d]) }
+});
+
+const setup = (colorPalette?: any) => {
+    jest.useFakeTimers();
+    const host: any = createFakeHost();
+    host.colorPalette = colorPalette;
+    const element = document.body.appendChild(document.createElement("div"));
+    const visual = new DateTimePickerVisual({ host, element } as any);
+    const update = (dataView: any, jsonFilters: any[] = [], viewport = { width: 300, height: 400 }) => visual.update({ dataViews: Array.isArray(dataView) ? dataView : dataView ? [dataView] : [], jsonFilters, viewport } as any);
+    const input = (name: string) => element.querySelector(`input[name="${name}"]`) as HTMLInputElement;
+    const button = (text: string) => Array.from(element.querySelectorAll("button")).find(b => b.textContent === text) as HTMLButtonElement;
+    const banner = () => element.textContent || "";
+    const change = (name: string, value: string) => { input(name).value = value; input(name).dispatchEvent(new Event("change")); };
+    const presets = () => Array.from(element.querySelectorAll("[role=radio]")) as HTMLButtonElement[];
+    const key = (target: Element, k: string) => target.dispatchEvent(new KeyboardEvent("keydown", { key: k, bubbles: true, cancelable: true }));
+    return { host, element, update, input, button, banner, presets, key, change };
+};
+
+afterEach(() => { jest.useRealTimers(); document.body.innerHTML = ""; });
+
+describe("DateTimePickerVisual.updateDataColumnInfo", () => {
+    [["categorical", categoricalView], ["table", tableView]].forEach(([shape, view]: [string, () => any]) => {
+        it(`reads the date column and its bounds from a ${shape} data view`, () => {
+            const { update, input, banner } = setup();
+            update(view());
+            expect(banner()).toContain("Connected to: OrderDate | Range: 01/03/2024 to 01/20/2024");
+            expect(input("startDate").min).toBe("2024-01-03");
+            expect(input("endDate").max).toBe("2024-01-20");
+        });
+
+        it(`filters the column found in a ${shape} data view`, () => {
+            const { host, update, input, button } = setup();
+            update(view());
+            // Default selection is the "last 7 days" preset, anchored on the latest date in the data.
+            expect([input("startDate").value, input("endDate").value]).toEqual(["2024-01-14", "2024-01-20"]);
+            button("Apply Filter").click();
+            expect(host.filterCalls).toHaveLength(1);
+            expect(host.filterCalls[0].filter).toMatchObject({
+                target: { table: "Sales", column: "OrderDate" },
+                conditions: [
+                    { operator: "GreaterThanOrEqual", value: "2024-01-14T00:00:00.000" },
+                    { operator: "LessThanOrEqual", value: "2024-01-20T23:59:59.999" }
+                ]
+            });
+        });
+    });
+
+    it("asks for a date field when none is bound", () => {
+        const { host, update, button, banner } = setup();
+        update(undefined);
+        expect(banner()).toContain("Add a date field to the Fields area");
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(0);
+    });
+
+    it("falls back to the first date-typed column when no role is reported", () => {
+        const { update, banner } = setup();
+        const source = { displayName: "Day", queryName: "Calendar.Day", type: { date: true } };
+        update({ metadata: { columns: [source] }, categorical: { categories: [{ source, values: ["2023-06-01", "2023-06-30"] }] } });
+        expect(banner()).toContain("Connected to: Day | Range: 06/01/2023 to 06/30/2023");
+    });
+
+    it("shows the persisted filter instead of the defaults", () => {
+        const { update, input } = setup();
+        const persisted = {
+            target: { table: "Sales", column: "OrderDate" }, filterType: 0, logicalOperator: "And",
+            conditions: [{ operator: "GreaterThanOrEqual", value: "2024-01-05T00:00:00.000" }, { operator: "LessThanOrEqual", value: "2024-01-12T23:59:59.999" }]
+        };
+        update(categoricalView(), [persisted]);
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2024-01-05", "2024-01-12"]);
+    });
+
+    it("offers the bound fields and a from/to overlap choice", () => {
+        const { host, element, update, button, banner } = setup();
+        const opened = { displayName: "OpenedDate", queryName: "Cases.OpenedDate", roles: { date: true }, type: { dateTime: true } };
+        const closed = { displayName: "ClosedDate", queryName: "Cases.ClosedDate", roles: { endDate: true }, type: { dateTime: true } };
+        update({
+            metadata: { columns: [opened, closed] },
+            categorical: { categories: [{ source: opened, values: ["2024-01-02", "2024-01-08"] }, { source: closed, values: [null, "2024-01-15"] }] }
+        });
+        const select = element.querySelector("select") as HTMLSelectElement;
+        expect(Array.from(select.options).map(o => o.textContent)).toEqual(["Active during period (OpenedDate - ClosedDate)", "OpenedDate", "ClosedDate"]);
+        expect(banner()).toContain("Connected to: OpenedDate - ClosedDate (active during period) | Range: 01/02/2024 to 01/15/2024");
+
+        button("Apply Filter").click();
+        expect(host.filterCalls[0].filter.map((f: any) => f.target.column)).toEqual(["OpenedDate", "ClosedDate"]);
+
+        select.value = "column|Cases.ClosedDate";
+        select.dispatchEvent(new Event("change"));
+        button("Apply Filter").click();
+        expect(host.filterCalls[1].filter.target).toEqual({ table: "Cases", column: "ClosedDate" });
+    });
+
+    it("reopens on whichever field or from/to pair the persisted filter targets", () => {
+        const { host, element, update, input, button } = setup();
+        const opened = { displayName: "OpenedDate", queryName: "Cases.OpenedDate", roles: { date: true }, type: { dateTime: true } };
+        const closed = { displayName: "ClosedDate", queryName: "Cases.ClosedDate", roles: { endDate: true }, type: { dateTime: true } };
+        const view = () => ({
+            metadata: { columns: [opened, closed] },
+            categorical: { categories: [{ source: opened, values: ["2024-01-02", "2024-01-08"] }, { source: closed, values: [null, "2024-01-15"] }] }
+        });
+        const select = () => element.querySelector("select") as HTMLSelectElement;
+        update(view());
+        select().value = "column|Cases.ClosedDate";
+        select().dispatchEvent(new Event("change"));
+        input("startDate").value = "2024-01-10"; input("startDate").dispatchEvent(new Event("change"));
+        button("Apply Filter").click();
+        select().value = "overlap|Cases.OpenedDate|Cases.ClosedDate";
+        select().dispatchEvent(new Event("change"));
+        input("startDate").value = "2024-01-05"; input("startDate").dispatchEvent(new Event("change"));
+        button("Apply Filter").click();
+
+        const reopened = setup();
+        reopened.update(view(), [host.filterCalls[0].filter]);
+        expect((reopened.element.querySelector("select") as HTMLSelectElement).value).toBe("column|Cases.ClosedDate");
+        expect(reopened.input("startDate").value).toBe("2024-01-10");
+        reopened.update(view(), host.filterCalls[1].filter);
+        expect((reopened.element.querySelector("select") as HTMLSelectElement).value).toBe("overlap|Cases.OpenedDate|Cases.ClosedDate");
+        expect(reopened.input("startDate").value).toBe("2024-01-05");
+    });
+
+    it("moves a filter in effect to the field picked in the dropdown", () => {
+        const { host, element, update, button } = setup();
+        const shipDate = { ...orderDateSource, displayName: "ShipDate", queryName: "Sales.ShipDate" };
+        const view = () => ({
+            metadata: { columns: [orderDateSource, shipDate] },
+            categorical: { categories: [{ source: orderDateSource, values: orderDates }, { source: shipDate, values: orderDates }] }
+        });
+        update(view());
+        button("Apply Filter").click();
+        update(view(), [host.filterCalls[0].filter]);
+        const select = element.querySelector("select") as HTMLSelectElement;
+        select.value = "column|Sales.ShipDate";
+        select.dispatchEvent(new Event("change"));
+        expect(host.filterCalls).toHaveLength(2);
+        expect(host.filterCalls[1].filter.target).toEqual({ table: "Sales", column: "ShipDate" });
+        expect(host.filterCalls[1].filter.conditions).toEqual(host.filterCalls[0].filter.conditions);
+    });
+});
+
+describe("DateTimePickerVisual keyboard and screen-reader support", () => {
+    it("exposes presets as a radio group with one tab stop", () => {
+        const { element, update, presets } = setup();
+        update(categoricalView());
+        expect(element.querySelector("[role=radiogroup]")!.getAttribute("aria-labelledby")).toBeTruthy();
+        const checked = presets().filter(b => b.getAttribute("aria-checked") === "true");
+        expect(checked.map(b => b.textContent)).toEqual(["Last 7 days"]);
+        expect(presets().filter(b => b.tabIndex === 0)).toEqual(checked);
+    });
+
+    it("moves across presets with the arrow keys and applies with Enter", () => {
+        const { host, update, input, presets, key } = setup();
+        update(categoricalView());
+        const last7 = presets().find(b => b.textContent === "Last 7 days")!;
+        key(last7, "ArrowRight");
+        const last30 = presets().find(b => b.textContent === "Last 30 days")!;
+        expect(last30.getAttribute("aria-checked")).toBe("true");
+        expect(document.activeElement).toBe(last30);
+        expect(input("startDate").value).toBe("2023-12-22");
+
+        key(last30, "Enter");
+        expect(host.filterCalls).toHaveLength(1);
+        expect(host.filterCalls[0].filter.conditions[0].value).toBe("2023-12-22T00:00:00.000");
+    });
+
+    it("applies with Enter in a date input and clears with Escape", () => {
+        const { host, update, input, key } = setup();
+        update(categoricalView());
+        key(input("endDate"), "Enter");
+        key(input("endDate"), "Escape");
+        expect(host.filterCalls.map(c => c.action)).toEqual([0, 1]);
+    });
+
+    it("closes the calendar on Escape without clearing the filter", () => {
+        const { host, element, update, button, key } = setup();
+        update(categoricalView());
+        button("Pick on calendar").click();
+        const popup = element.querySelector("[role=dialog]") as HTMLElement;
+        expect(popup.style.display).toBe("block");
+        key(popup.querySelector(".calendar-day")!, "Escape");
+        expect(popup.style.display).toBe("none");
+        expect(host.filterCalls).toHaveLength(0);
+    });
+
+    it("moves across calendar days with the arrow keys, within the data bounds", () => {
+        const { update, button, key } = setup();
+        update(categoricalView());
+        button("Pick on calendar").click();
+        expect((document.activeElement as HTMLElement).getAttribute("aria-label")).toBe("01/14/2024");
+        key(document.activeElement!, "ArrowRight");
+        expect((document.activeElement as HTMLElement).getAttribute("aria-label")).toBe("01/15/2024");
+        key(document.activeElement!, "ArrowDown");
+        expect((document.activeElement as HTMLElement).getAttribute("aria-label")).toBe("01/15/2024");
+        key(document.activeElement!, "ArrowUp");
+        expect((document.activeElement as HTMLElement).getAttribute("aria-label")).toBe("01/08/2024");
+    });
+
+    it("announces messages through a live region", () => {
+        const { element, update, button } = setup();
+        update(categoricalView());
+        button("Apply Filter").click();
+        const message = element.querySelector(".message") as HTMLElement;
+        expect(message.getAttribute("aria-live")).toBe("polite");
+        expect(message.textContent).toBe("Filter applied successfully!");
+        jest.advanceTimersByTime(2500);
+        expect(message.style.display).toBe("none");
+    });
+
+    it("draws with theme colors, and only foreground/background/selection in high contrast", () => {
+        const normal = setup({ isHighContrast: false, foreground: { value: "#252423" }, background: { value: "#fafafa" } });
+        normal.update(categoricalView());
+        const root = normal.element.firstElementChild as HTMLElement;
+        expect(root.style.getPropertyValue("--dtp-foreground")).toBe("#252423");
+        expect(root.style.getPropertyValue("--dtp-title")).toBe("#000000");
+        // Colors the palette doesn't set are left to the stylesheet's defaults.
+        expect(root.style.getPropertyValue("--dtp-accent")).toBe("");
+        expect(root.classList.contains("high-contrast")).toBe(false);
+
+        const contrast = setup({ isHighContrast: true, foreground: { value: "#ffff00" }, background: { value: "#000000" }, foregroundSelected: { value: "#00ffff" }, hyperlink: { value: "#00ff00" } });
+        contrast.update(categoricalView());
+        const hc = contrast.element.firstElementChild as HTMLElement;
+        expect(hc.classList.contains("high-contrast")).toBe(true);
+        expect(hc.style.getPropertyValue("--dtp-accent")).toBe("#00ffff");
+        expect(hc.style.getPropertyValue("--dtp-title")).toBe("#ffff00");
+        expect(hc.style.getPropertyValue("--dtp-range")).toBe("#000000");
+        expect(hc.getAttribute("style")).not.toMatch(/#(0078d4|deecf9|ffb900)/);
+
+        contrast.host.colorPalette = { isHighContrast: false, foreground: { value: "#252423" }, background: { value: "#fafafa" } };
+        contrast.update(categoricalView());
+        expect(hc.style.getPropertyValue("--dtp-range")).toBe("");
+        expect(hc.style.getPropertyValue("--dtp-background")).toBe("#fafafa");
+    });
+});
+
+describe("DateTimePickerVisual validation", () => {
+    const issue = (element: HTMLElement, selector: string) => (element.querySelector(selector) as HTMLElement);
+
+    it("blocks Apply on an unreadable date and points at the field", () => {
+        const { host, element, update, input, button, change } = setup();
+        update(categoricalView());
+        change("startDate", "");
+        expect(input("startDate").getAttribute("aria-invalid")).toBe("true");
+        expect(issue(element, "#" + input("startDate").getAttribute("aria-describedby")).textContent).toBe("Enter a valid start date");
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(0);
+        expect(element.querySelector(".message")!.textContent).toBe("Enter a valid start date");
+        expect(document.activeElement).toBe(input("startDate"));
+
+        change("startDate", "2024-01-10");
+        expect(input("startDate").hasAttribute("aria-invalid")).toBe(false);
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(1);
+    });
+
+    it("rejects a range outside the data and warns about one without rows", () => {
+        const { host, element, update, button, change } = setup();
+        update(categoricalView());
+        change("startDate", "2023-06-01"); change("endDate", "2023-06-30");
+        expect(issue(element, ".range-issue").className).toBe("range-issue error");
+        expect(issue(element, ".range-issue").textContent).toBe("No data in this range - the data covers 01/03/2024 to 01/20/2024");
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(0);
+
+        change("startDate", "2024-01-11"); change("endDate", "2024-01-19");
+        expect(issue(element, ".range-issue").className).toBe("range-issue warning");
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(1);
+    });
+
+    it("lets a range past the loaded rows be applied when the host holds more", () => {
+        const { host, element, update, button, change } = setup();
+        const view = categoricalView();
+        update({ ...view, metadata: { ...view.metadata, segment: {} } });
+        change("startDate", "2024-02-01"); change("endDate", "2024-02-10");
+        expect(issue(element, ".range-issue").className).toBe("range-issue warning");
+        expect(issue(element, ".range-issue").textContent).toBe("No loaded rows in this range - the rows loaded so far cover 01/03/2024 to 01/20/2024");
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(1);
+    });
+
+    it("enforces the configured maximum span", () => {
+        const { host, element, update, button } = setup();
+        update(categoricalView({ dateSettings: { maxRangeDays: 5 } }));
+        expect(issue(element, ".range-issue").textContent).toBe("The range covers 7 days; the limit is 5 days");
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(0);
+    });
+
+    it("applies on change after the edits settle, without an Apply button", () => {
+        const { host, update, button, presets, key } = setup();
+        update(categoricalView({ dateSettings: { applyOnChange: true } }));
+        expect(button("Apply Filter").style.display).toBe("none");
+        key(presets().find(b => b.textContent === "Last 7 days")!, "ArrowRight");
+        key(document.activeElement!, "ArrowRight");
+        jest.advanceTimersByTime(499);
+        expect(host.filterCalls).toHaveLength(0);
+        jest.advanceTimersByTime(1);
+        expect(host.filterCalls).toHaveLength(1);
+        expect(host.filterCalls[0].filter.conditions[0].value).toBe("2023-10-23T00:00:00.000");
+    });
+
+    it("does not auto-apply an invalid range", () => {
+        const { host, element, update, change } = setup();
+        update(categoricalView({ dateSettings: { applyOnChange: true } }));
+        change("endDate", "2024-01-01");
+        jest.advanceTimersByTime(1000);
+        expect(host.filterCalls).toHaveLength(0);
+        expect((element.querySelector(".message") as HTMLElement).style.display).not.toBe("block");
+    });
+});
+
+describe("DateTimePickerVisual layouts", () => {
+    const container = (element: HTMLElement) => element.querySelector(".visual-container") as HTMLElement;
+    const pill = (element: HTMLElement) => element.querySelector(".pill") as HTMLButtonElement;
+
+    it("follows the viewport, or the layout chosen in the format pane", () => {
+        const { element, update } = setup();
+        update(categoricalView());
+        expect(container(element).className).toBe("visual-container layout-vertical");
+        update(categoricalView(), [], { width: 1000, height: 60 });
+        expect(container(element).className).toBe("visual-container layout-horizontal");
+        expect(container(element).style.height).toBe("60px");
+        update(categoricalView(), [], { width: 180, height: 40 });
+        expect(container(element).className).toBe("visual-container layout-compact");
+        update(categoricalView({ appearance: { layout: "vertical" } }), [], { width: 180, height: 40 });
+        expect(container(element).className).toBe("visual-container layout-vertical");
+    });
+
+    it("summarises the selection in the compact pill", () => {
+        const { element, update, presets, change } = setup();
+        update(categoricalView({ appearance: { layout: "compact" } }));
+        expect(pill(element).textContent).toBe("Last 7 days");
+        expect(pill(element).getAttribute("aria-label")).toBe("Date range: Last 7 days. Select to change");
+        presets().find(b => b.textContent === "Last 30 days")!.click();
+        expect(pill(element).textContent).toBe("Last 30 days");
+        change("startDate", "2024-01-05");
+        expect(pill(element).textContent).toBe("01/05/2024 - 01/20/2024");
+    });
+
+    it("opens the compact dropdown from the pill and closes it on Escape or after applying", () => {
+        const { host, element, update, button, key } = setup();
+        update(categoricalView({ appearance: { layout: "compact" } }));
+        const panel = element.querySelector("#" + pill(element).getAttribute("aria-controls"))!;
+        expect(panel.contains(button("Apply Filter"))).toBe(true);
+
+        pill(element).click();
+        expect(container(element).classList.contains("open")).toBe(true);
+        expect(pill(element).getAttribute("aria-expanded")).toBe("true");
+        key(button("Apply Filter"), "Escape");
+        expect(container(element).classList.contains("open")).toBe(false);
+        expect(document.activeElement).toBe(pill(element));
+        // Escape only closed the dropdown; it did not clear the filter.
+        expect(host.filterCalls).toHaveLength(0);
+
+        pill(element).click();
+        button("Apply Filter").click();
+        expect(host.filterCalls).toHaveLength(1);
+        expect(pill(element).getAttribute("aria-expanded")).toBe("false");
+    });
+
+    it("closes the compact dropdown from its own close button, since the open panel covers the pill", () => {
+        const { element, update } = setup();
+        update(categoricalView({ appearance: { layout: "compact" } }), [], { width: 180, height: 40 });
+        const close = element.querySelector('.panel button[aria-label="Close"]') as HTMLButtonElement;
+        pill(element).click();
+        // The stylesheet lays the panel over the whole frame on exactly these classes.
+        expect(container(element).className).toBe("visual-container layout-compact open");
+        expect(document.activeElement).toBe(close);
+        close.click();
+        expect(container(element).classList.contains("open")).toBe(false);
+        expect(pill(element).getAttribute("aria-expanded")).toBe("false");
+        expect(document.activeElement).toBe(pill(element));
+    });
+});
+
+describe("DateTimePickerVisual period navigation and comparison", () => {
+    const compareSource = { displayName: "Earliest Date", queryName: "Min(CompareCalendar.Date)", roles: { compareDate: true }, type: { dateTime: true } };
+    // The comparison field arrives summarized, as a value beside the fact's date categories.
+    const comparedView = (objects?: any, source: any = compareSource) => ({
+        metadata: { columns: [orderDateSource, source], objects },
+        categorical: { categories: [{ source: orderDateSource, values: orderDates }], values: [{ source, values: orderDates.map(() => "2023-01-01") }] }
+    });
+    const step = (element: HTMLElement, label: string) => (element.querySelector(`.period-step[aria-label="${label}"]`) as HTMLButtonElement).click();
+    const compareSelect = (element: HTMLElement) => element.querySelector(".compare-select select") as HTMLSelectElement;
+
+    it("steps the selection by its own length", () => {
+        const { element, update, input, presets } = setup();
+        update(categoricalView());
+        step(element, "Previous period");
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2024-01-07", "2024-01-13"]);
+        expect(presets().find(b => b.getAttribute("aria-checked") === "true")!.textContent).toBe("Custom");
+        step(element, "Next period"); step(element, "Next period");
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2024-01-21", "2024-01-27"]);
+    });
+
+    it("steps calendar presets by their unit and re-applies an active filter", () => {
+        const { host, element, update, input, presets, button } = setup();
+        const source = { ...orderDateSource, displayName: "ShipDate", queryName: "Sales.ShipDate" };
+        const view = () => ({
+            metadata: { columns: [source], objects: { presets: { presetList: "lastMonth,custom" } } },
+            categorical: { categories: [{ source, values: ["2023-06-15", "2024-01-20"] }] }
+        });
+        update(view());
+        presets().find(b => b.textContent === "Last month")!.click();
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2023-12-01", "2023-12-31"]);
+        button("Apply Filter").click();
+        update(view(), [host.filterCalls[0].filter]);
+        step(element, "Previous period");
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2023-11-01", "2023-11-30"]);
+        update(view(), [host.filterCalls[1].filter]);
+        step(element, "Previous period");
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2023-10-01", "2023-10-31"]);
+        expect(host.filterCalls).toHaveLength(3);
+        expect(host.filterCalls[2].filter.conditions[1].value).toBe("2023-10-31T23:59:59.999");
+    });
+
+    it("keeps stepping a to-date preset by months after the host echoes the shifted filter back", () => {
+        const { host, element, update, input, presets, button } = setup();
+        const view = () => ({
+            metadata: { columns: [orderDateSource], objects: { presets: { presetList: "monthToDate,custom" } } },
+            categorical: { categories: [{ source: orderDateSource, values: ["2023-06-15", "2024-01-20"] }] }
+        });
+        update(view());
+        presets().find(b => b.textContent === "Month to date")!.click();
+        button("Apply Filter").click();
+        update(view(), [host.filterCalls[0].filter]);
+        step(element, "Previous period");
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2023-12-01", "2023-12-20"]);
+        update(view(), [host.filterCalls[1].filter]);
+        step(element, "Previous period");
+        expect([input("startDate").value, input("endDate").value]).toEqual(["2023-11-01", "2023-11-20"]);
+        expect(host.filterCalls[2].filter.conditions[0].value).toBe("2023-11-01T00:00:00.000");
+    });
+
+    it("hides the arrows when turned off and the comparison without a comparison field", () => {
+        const { element, update } = setup();
+        update(categoricalView({ period: { showArrows: false } }));
+        expect((element.querySelector(".period-arrows") as HTMLElement).style.display).toBe("none");
+        expect((element.querySelector(".compare-select") as HTMLElement).style.display).toBe("none");
+        update(comparedView());
+        expect((element.querySelector(".compare-select") as HTMLElement).style.display).toBe("");
+    });
+
+    it("filters the comparison field to the chosen window and restores the choice", () => {
+        const { host, element, update, banner, button } = setup();
+        update(comparedView());
+        expect(element.querySelectorAll(".column-select option")).toHaveLength(1);
+        expect(banner()).toContain("Range: 01/03/2024 to 01/20/2024");
+        compareSelect(element).value = "samePeriodLastYear";
+        compareSelect(element).dispatchEvent(new Event("change"));
+        expect(banner()).toContain("Compared with: 01/14/2023 to 01/20/2023");
+        button("Apply Filter").click();
+        const [main, compare] = host.filterCalls[0].filter;
+        expect(main.conditions[0].value).toBe("2024-01-14T00:00:00.000");
+        expect(compare).toMatchObject({ target: { table: "CompareCalendar", column: "Date" }, conditions: [{ value: "2023-01-14T00:00:00.000" }, { value: "2023-01-20T23:59:59.999" }] });
+
+        // Switching the mode while filtered re-applies straight away.
+        update(comparedView(), host.filterCalls[0].filter);
+        compareSelect(element).value = "previousPeriod";
+        compareSelect(element).dispatchEvent(new Event("change"));
+        expect(host.filterCalls[1].filter[1].conditions[1].value).toBe("2024-01-13T23:59:59.999");
+        update(comparedView(), host.filterCalls[1].filter);
+        expect(compareSelect(element).value).toBe("previousPeriod");
+        update(comparedView(), host.filterCalls[0].filter);
+        expect(compareSelect(element).value).toBe("samePeriodLastYear");
+    });
+
+    it("reads the comparison field from the fact's data view without treating it as a date field", () => {
+        const { host, element, update, banner, button } = setup();
+        update(comparedView({ period: { comparisonMode: "samePeriodLastYear" } }, { ...compareSource, displayName: "Count of Date", queryName: "CountNonNull(CompareCalendar.Date)", type: { integer: true } }));
+        expect(element.querySelectorAll(".column-select option")).toHaveLength(1);
+        expect(banner()).toContain("Range: 01/03/2024 to 01/20/2024");
+        button("Apply Filter").click();
+        expect(host.filterCalls[0].filter[1].target).toEqual({ table: "CompareCalendar", column: "Date" });
+    });
+
+    it("reads back a previous-period comparison stepped by calendar months", () => {
+        const { host, element, update, presets, button } = setup();
+        const objects = { presets: { presetList: "monthToDate,custom" }, period: { comparisonMode: "samePeriodLastYear" } };
+        update(comparedView(objects));
+        presets().find(b => b.textContent === "Month to date")!.click();
+        compareSelect(element).value = "previousPeriod";
+        compareSelect(element).dispatchEvent(new Event("change"));
+        button("Apply Filter").click();
+        expect(host.filterCalls[0].filter[1].conditions[0].value).toBe("2023-12-01T00:00:00.000");
+
+        const reopened = setup();
+        reopened.update(comparedView(objects), host.filterCalls[0].filter);
+        expect(compareSelect(reopened.element).value).toBe("previousPeriod");
+        expect(reopened.banner()).toContain("Compared with: 12/01/2023 to 12/20/2023");
+    });
+
+    it("starts on the format pane's default comparison", () => {
+        const { host, update, button } = setup();
+        update(comparedView({ period: { comparisonMode: "previousPeriod" } }));
+        button("Apply Filter").click();
+        expect(host.filterCalls[0].filter[1].conditions[0].value).toBe("2024-01-07T00:00:00.000");
+    });
+});
+
+describe("DateTimePickerVisual rolling filters", () => {
+    const ymd = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+    const today = new Date();
+    const recentView = (objects: any) => ({
+        metadata: { columns: [orderDateSource], objects },
+        categorical: { categories: [{ source: orderDateSource, values: [ymd(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 40)), ymd(today)] }] }
+    });
+
+    it("restores a rolling day preset as the same window the preset shows", () => {
+        const { host, update, input, presets, button } = setup();
+        const objects = { presets: { presetList: "last7Days,custom", anchor: "today", rollingFilters: true } };
+        update(recentView(objects));
+        presets().find(b => b.textContent === "Last 7 days")!.click();
+        const shown = [input("startDate").value, input("endDate").value];
+        expect(shown).toEqual([ymd(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6)), ymd(today)]);
+        button("Apply Filter").click();
+        expect(host.filterCalls[0].filter).toMatchObject({ timeUnitsCount: 7, includeToday: true });
+        update(recentView(objects), [host.filterCalls[0].filter]);
+        expect([input("startDate").value, input("endDate").value]).toEqual(shown);
+    });
+
+    it("shows and checks the window a rolling filter covers, not one ending at the data's last date", () => {
+        const { host, update, input, presets, button } = setup();
+        const source = { ...orderDateSource };
+        const view = {
+            metadata: { columns: [source], objects: { presets: { presetList: "last7Days,custom", rollingFilters: true } } },
+            categorical: { categories: [{ source, values: [ymd(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 40)), ymd(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 2))] }] }
+        };
+        update(view);
+        presets().find(b => b.textContent === "Last 7 days")!.click();
+        expect([input("startDate").value, input("endDate").value]).toEqual([ymd(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6)), ymd(today)]);
+        button("Apply Filter").click();
+        expect(host.filterCalls[0].filter).toMatchObject({ timeUnitsCount: 7 });
+
+        // Without rolling filters the preset stays anchored on the latest date in the data.
+        view.metadata.objects.presets.rollingFilters = false;
+        update(view);
+        presets().find(b => b.textContent === "Custom")!.click();
+        presets().find(b => b.textContent === "Last 7 days")!.click();
+        expect(input("endDate").value).toBe(ymd(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 2)));
+    });
+});